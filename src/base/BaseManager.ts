@@ -6,19 +6,57 @@ import {
   BrowserProvider,
   JsonRpcProvider,
   getAddress,
+  formatEther,
   Interface,
-  ContractTransactionReceipt,
   Signer,
+  TransactionReceipt,
+  TransactionRequest,
+  TransactionResponse,
+  ContractEventPayload,
+  isError,
 } from 'ethers';
 import type {
   DeploymentResult,
   DDCChainConfig,
+  GasEstimate,
   ManagerParams,
   ManagerConfig,
   SignerConfig,
+  TransactionConfig,
+  TransactionOptions,
+  ReplacementOptions,
+  ReplacementResult,
+  ContractEventMeta,
+  OwnershipTransferredEvent,
+  Unsubscribe,
+  EventQueryOptions,
+  TimestampedEvent,
+  ContractIndexerOptions,
+  FactoryContractsOptions,
+  FactoryContractInfo,
+  FactoryContractPage,
+  RecoverContractsOptions,
+  RecoveredContract,
+  RecoveryResult,
 } from '../types';
 import { SDKError } from '../types';
-import { createContract, validateAddress, ensureCorrectNetwork, Logger, getSigner } from '../utils';
+import {
+  createContract,
+  validateAddress,
+  ensureCorrectNetwork,
+  Logger,
+  getSigner,
+  extractRevertData,
+  decodeRevertData,
+  revertToSDKError,
+  ManagedNonceSigner,
+  decodeEventArgs,
+  getEventMeta,
+  getLogsChunked,
+  getBlockTimestamps,
+  runBatch,
+} from '../utils';
+import type { ContractEventFields, ContractEventName } from '../utils';
 import {
   getDDCConfig,
   setContractAddress,
@@ -26,7 +64,29 @@ import {
   transferContractOwner,
 } from '../service/api';
 import { addAddress } from '../utils/contract';
-import { ensureContractDeployed } from './decorators';
+import { ContractIndexer, ConfirmedEventStream } from '../indexer';
+import type { EventStreamOptions } from '../indexer';
+import { ensureContractDeployed, notifyTransactionError } from './decorators';
+
+/**
+ * Factory deployment event details
+ */
+interface FactoryDeployment {
+  contractAddress: string;
+  name: string;
+  symbol: string;
+  blockNumber: number;
+  transactionHash: string;
+}
+
+/**
+ * Deployment events of one factory scanned so far
+ */
+interface FactoryDeploymentScan {
+  scannedFrom: number;
+  scannedTo: number;
+  deployments: Map<string, FactoryDeployment>;
+}
 
 /**
  * Base Manager abstract class
@@ -47,6 +107,11 @@ export abstract class BaseManager<TContractType extends 'nft' | 'membership'> {
   public metadataUrl?: string;
   protected authToken?: string; // auth jwt token for DDCNFTManager
   protected authExpiresAt?: string; // auth jwt token expires at for DDCNFTManager
+  protected transactionConfig: TransactionConfig = {};
+  private nonceSigner?: ManagedNonceSigner; // private-key mode only
+  private eventSubscriptions = new Set<Unsubscribe>();
+  private blockTimestamps = new Map<string, number>(); // block hash -> timestamp
+  private factoryDeployments = new Map<string, FactoryDeploymentScan>(); // by factory address
 
   protected readonly BYTES32_ZERO =
     '0x0000000000000000000000000000000000000000000000000000000000000000';
@@ -73,10 +138,11 @@ export abstract class BaseManager<TContractType extends 'nft' | 'membership'> {
   constructor(config: ManagerConfig) {
     this.logger = new Logger(config?.debug || false);
     if (config?.provider && config?.network) {
-      const { provider, network, signerConfig } = config;
+      const { provider, network, signerConfig, transaction } = config;
       this.provider = provider;
       this.signerConfig = signerConfig;
       this.networkConfig = network;
+      this.transactionConfig = transaction || {};
 
       this.logger.info(`Initializing ${this.getManagerName()}`, {
         hasFactory: !!config.factoryAddress,
@@ -121,14 +187,39 @@ export abstract class BaseManager<TContractType extends 'nft' | 'membership'> {
 
   /**
    * Get current signer instance
+   * In JsonRpcProvider (private key) mode the same nonce-managed signer is reused for every call,
+   * so concurrent writes from this manager never collide on nonces
    */
   protected async getSigner(): Promise<Signer> {
     if (!this.provider) {
       throw new SDKError('Provider is not available', 'PROVIDER_NOT_AVAILABLE');
     }
+
+    if (this.provider instanceof JsonRpcProvider) {
+      const signer = await getSigner(this.provider, this.signerConfig);
+      this.nonceSigner ??= new ManagedNonceSigner(signer);
+      return this.nonceSigner;
+    }
+
     return await getSigner(this.provider, this.signerConfig);
   }
 
+  /**
+   * Re-read the signer's pending nonce from the chain (JsonRpcProvider / private key mode)
+   * Call after transactions were sent from the same key outside this manager
+   * @returns Next nonce that will be used
+   */
+  public async resyncNonce(): Promise<number> {
+    const signer = await this.getSigner();
+    if (!(signer instanceof ManagedNonceSigner)) {
+      throw new SDKError(
+        'Nonce management is only available in JsonRpcProvider (private key) mode. Browser wallets manage their own nonces.',
+        'NONCE_MANAGER_NOT_AVAILABLE'
+      );
+    }
+    return await signer.resync();
+  }
+
   // ==================== Common Public Methods ====================
 
   /**
@@ -222,11 +313,14 @@ export abstract class BaseManager<TContractType extends 'nft' | 'membership'> {
 
   /**
    * Deploy factory contract
+   * @param options - Optional transaction lifecycle hooks
    */
-  public async deployFactory(): Promise<DeploymentResult> {
+  @notifyTransactionError
+  public async deployFactory(options?: TransactionOptions): Promise<DeploymentResult> {
     if (!this.provider) {
       throw new SDKError('provider is required for factory deployment', 'MISSING_SIGNER');
     }
+    this.resolveTransactionSettings(options);
 
     await this.ensureNetwork();
 
@@ -237,12 +331,11 @@ export abstract class BaseManager<TContractType extends 'nft' | 'membership'> {
         throw new SDKError('Factory bytecode not found in ABI', 'MISSING_BYTECODE');
       }
 
-      const signer = await getSigner(this.provider!, this.signerConfig);
+      const signer = await this.getSigner();
       const factory = new ContractFactory(this.FACTORY_ABI, bytecode, signer);
 
       this.logger.info(`Deploying ${this.getManagerName()} Factory contract...`);
       const contract = await factory.deploy();
-      await contract.waitForDeployment();
 
       // Get deployment transaction
       const deploymentTx = contract.deploymentTransaction();
@@ -251,10 +344,7 @@ export abstract class BaseManager<TContractType extends 'nft' | 'membership'> {
       }
 
       // Wait for transaction receipt (most reliable source for contract address)
-      const receipt = await deploymentTx.wait();
-      if (!receipt) {
-        throw new SDKError('Transaction receipt not available', 'TX_RECEIPT_ERROR');
-      }
+      const receipt = await this.waitForTransaction(deploymentTx, options);
 
       // Get contract address from receipt (most reliable)
       let factoryAddress = receipt.contractAddress;
@@ -284,14 +374,21 @@ export abstract class BaseManager<TContractType extends 'nft' | 'membership'> {
         blockNumber: receipt.blockNumber,
       };
     } catch (error: any) {
+      if (error instanceof SDKError) throw error;
       return this.handleDeploymentError(error, 'Factory');
     }
   }
 
   /**
    * Deploy contract (via factory)
+   * @param options - Optional transaction lifecycle hooks
    */
-  public async deployContract(name: string, symbol: string): Promise<DeploymentResult> {
+  @notifyTransactionError
+  public async deployContract(
+    name: string,
+    symbol: string,
+    options?: TransactionOptions
+  ): Promise<DeploymentResult> {
     if (!name || !name.trim()) {
       throw new SDKError('Contract name cannot be empty', 'INVALID_PARAMETER', { name });
     }
@@ -303,14 +400,12 @@ export abstract class BaseManager<TContractType extends 'nft' | 'membership'> {
     await this.ensureNetwork();
 
     try {
-      const tx: ContractTransactionResponse = await this.factoryContract![
-        this.getDeployMethodName()
-      ](name, symbol);
-
-      const receipt: ContractTransactionReceipt | null = await tx.wait();
-      if (!receipt) {
-        throw new SDKError('Transaction receipt not available', 'TX_RECEIPT_ERROR');
-      }
+      const receipt = await this.sendTransaction(
+        this.factoryContract!,
+        this.getDeployMethodName(),
+        [name, symbol],
+        options
+      );
 
       let deployedAddress = this.parseDeploymentEvent(receipt, name, symbol);
 
@@ -330,10 +425,7 @@ export abstract class BaseManager<TContractType extends 'nft' | 'membership'> {
       deployedAddress = getAddress(deployedAddress);
       addAddress(this.deployedContracts, deployedAddress);
 
-      if (!this.provider) {
-        throw new SDKError('Provider is not available', 'PROVIDER_NOT_AVAILABLE');
-      }
-      const signer = await getSigner(this.provider, this.signerConfig);
+      const signer = await this.getSigner();
       const address = await signer.getAddress();
 
       await setContractAddress({
@@ -363,6 +455,352 @@ export abstract class BaseManager<TContractType extends 'nft' | 'membership'> {
     return `deploy${typeName}`;
   }
 
+  /**
+   * Get the factory's deployment event name (can be overridden by subclasses)
+   */
+  protected getDeployEventName(): string {
+    const typeName = this.CONTRACT_TYPE === 'nft' ? 'DDCNFT' : 'Membership';
+    return `${typeName}Deployed`;
+  }
+
+  // ==================== Factory Enumeration ====================
+
+  /**
+   * Get the number of contracts deployed by a factory (read from the chain)
+   * @param factoryAddress - Factory to read (default: the manager's factory)
+   */
+  public async getFactoryContractCount(factoryAddress?: string): Promise<number> {
+    const factory = this.getFactoryReader(factoryAddress);
+
+    try {
+      return Number(await factory.getDeployedContractsCount());
+    } catch (error: any) {
+      throw new SDKError(
+        `Failed to read factory contract count: ${error.message || error}`,
+        'FACTORY_READ_ERROR',
+        { factoryAddress: factory.target, error: error.message || error }
+      );
+    }
+  }
+
+  /**
+   * List contracts deployed by a factory with their name, symbol, owner and deployment block
+   * Reads the chain only, so it works without the backend's address lists
+   *
+   * @param options - Factory, pagination and deployment event scan settings
+   * @returns One page of contracts in deployment order, with the total count
+   *
+   * @example
+   * ```typescript
+   * const page = await manager.getFactoryContracts({ limit: 20 });
+   * page.contracts.forEach((c) => console.log(c.index, c.address, c.name, c.owner, c.deploymentBlock));
+   * ```
+   */
+  public async getFactoryContracts(
+    options: FactoryContractsOptions = {}
+  ): Promise<FactoryContractPage> {
+    const { offset = 0, limit = 50, includeDeploymentBlock = true } = options;
+    if (!Number.isInteger(offset) || offset < 0) {
+      throw new SDKError('offset must be a non-negative integer', 'INVALID_PARAMETER', { offset });
+    }
+    if (!Number.isInteger(limit) || limit < 1) {
+      throw new SDKError('limit must be a positive integer', 'INVALID_PARAMETER', { limit });
+    }
+
+    const factory = this.getFactoryReader(options.factoryAddress);
+    const factoryAddress = factory.target as string;
+    const total = await this.getFactoryContractCount(factoryAddress);
+    const indexes = Array.from(
+      { length: Math.max(Math.min(limit, total - offset), 0) },
+      (_, i) => offset + i
+    );
+
+    let addresses: string[];
+    try {
+      const batch = await runBatch(indexes, (index) => factory.getDeployedContractAt(index), {
+        concurrency: 5,
+        stopOnError: true,
+      });
+      const failed = batch.results.find((r) => r.status !== 'fulfilled');
+      if (failed) throw failed.error || new Error(`Contract #${failed.item} was not read`);
+      addresses = batch.results.map((r) => getAddress(r.result as string));
+    } catch (error: any) {
+      throw new SDKError(
+        `Failed to read factory contracts: ${error.message || error}`,
+        'FACTORY_READ_ERROR',
+        { factoryAddress, offset, limit, error: error.message || error }
+      );
+    }
+
+    const deployments = includeDeploymentBlock
+      ? await this.scanFactoryDeployments(factoryAddress, options)
+      : undefined;
+
+    const contracts = await Promise.all(
+      addresses.map((address, i) =>
+        this.readFactoryContractInfo(indexes[i], address, deployments?.get(address.toLowerCase()))
+      )
+    );
+
+    return { contracts, total, offset, limit, hasMore: offset + contracts.length < total };
+  }
+
+  /**
+   * Recover this wallet's contracts from the factory's deployment events
+   * Use it when a deployment was never recorded by the backend (e.g. setContractAddress failed),
+   * so the contract is missing from getAllDeployedAddresses() after init
+   *
+   * @param options - Matching rule, backend re-reporting and scan range
+   * @returns Matching deployments and the addresses added to getAllDeployedAddresses()
+   *
+   * @example
+   * ```typescript
+   * const { recovered } = await manager.recoverDeployedContracts({ reportToBackend: true });
+   * console.log(`Recovered ${recovered.length} contracts`, manager.getAllDeployedAddresses());
+   * ```
+   */
+  public async recoverDeployedContracts(
+    options: RecoverContractsOptions = {}
+  ): Promise<RecoveryResult> {
+    const { match = 'either', reportToBackend = false } = options;
+    if (!['sender', 'owner', 'either'].includes(match)) {
+      throw new SDKError("match must be 'sender', 'owner' or 'either'", 'INVALID_PARAMETER', {
+        match,
+      });
+    }
+
+    const factoryAddress = this.getFactoryReader(options.factoryAddress).target as string;
+    const signer = await this.getSigner();
+    const wallet = (await signer.getAddress()).toLowerCase();
+    const deployments = [...(await this.scanFactoryDeployments(factoryAddress, options)).values()];
+
+    this.logger.info(`Checking ${deployments.length} factory deployments for ${wallet}`);
+
+    const batch = await runBatch(
+      deployments,
+      async (deployment) => {
+        const matchedBy: RecoveredContract['matchedBy'] = [];
+        if (match !== 'owner') {
+          const tx = await this.provider!.getTransaction(deployment.transactionHash);
+          if (tx?.from.toLowerCase() === wallet) matchedBy.push('sender');
+        }
+        if (match !== 'sender') {
+          const owner = await this.readContractOwner(deployment.contractAddress);
+          if (owner.toLowerCase() === wallet) matchedBy.push('owner');
+        }
+        return matchedBy;
+      },
+      { concurrency: 5 }
+    );
+
+    const failed = batch.results.find((r) => r.status === 'rejected');
+    if (failed) {
+      throw new SDKError(
+        `Failed to check deployment ${failed.item.contractAddress}: ${failed.error?.message}`,
+        'RECOVERY_ERROR',
+        { contractAddress: failed.item.contractAddress, error: failed.error?.message }
+      );
+    }
+
+    const contracts: RecoveredContract[] = [];
+    for (const { item, result } of batch.results) {
+      if (!result || result.length === 0) continue;
+      const known = this.deployedContracts.some(
+        (address) => address.toLowerCase() === item.contractAddress.toLowerCase()
+      );
+      contracts.push({
+        address: item.contractAddress,
+        name: item.name,
+        symbol: item.symbol,
+        deploymentBlock: item.blockNumber,
+        deploymentTransactionHash: item.transactionHash,
+        matchedBy: result,
+        recovered: !known,
+      });
+    }
+    contracts.sort((a, b) => a.deploymentBlock - b.deploymentBlock);
+
+    const recovered = contracts.filter((contract) => contract.recovered);
+    for (const contract of recovered) {
+      addAddress(this.deployedContracts, contract.address);
+
+      if (reportToBackend) {
+        try {
+          await setContractAddress({
+            address: await signer.getAddress(),
+            contract: contract.address,
+            type: this.CONTRACT_TYPE,
+          });
+          contract.reported = true;
+        } catch (error: any) {
+          this.logger.warn(`Failed to report ${contract.address} to backend:`, error);
+          contract.reported = false;
+          contract.reportError = error?.message || String(error);
+        }
+      }
+    }
+
+    return {
+      contracts,
+      recovered: recovered.map((contract) => contract.address),
+      scanned: deployments.length,
+    };
+  }
+
+  /**
+   * Scan a factory's deployment events (incrementally: later calls only scan new blocks, or the
+   * blocks before the previous scans when an earlier fromBlock is requested)
+   * @returns Deployed contract address (lowercase) -> deployment event details
+   */
+  protected async scanFactoryDeployments(
+    factoryAddress: string,
+    options: { fromBlock?: number; maxBlockRange?: number } = {}
+  ): Promise<Map<string, FactoryDeployment>> {
+    if (!this.provider) {
+      throw new SDKError('Provider is not available', 'PROVIDER_NOT_AVAILABLE');
+    }
+
+    const key = factoryAddress.toLowerCase();
+    const fromBlock = options.fromBlock ?? 0;
+    const scan = this.factoryDeployments.get(key) || {
+      scannedFrom: fromBlock,
+      scannedTo: fromBlock - 1,
+      deployments: new Map<string, FactoryDeployment>(),
+    };
+
+    try {
+      const head = await this.provider.getBlockNumber();
+      if (fromBlock < scan.scannedFrom) {
+        await this.collectFactoryDeployments(
+          factoryAddress,
+          scan.deployments,
+          fromBlock,
+          scan.scannedFrom - 1,
+          options.maxBlockRange
+        );
+        scan.scannedFrom = fromBlock;
+      }
+      if (scan.scannedTo < head) {
+        await this.collectFactoryDeployments(
+          factoryAddress,
+          scan.deployments,
+          scan.scannedTo + 1,
+          head,
+          options.maxBlockRange
+        );
+        scan.scannedTo = head;
+      }
+      this.factoryDeployments.set(key, scan);
+    } catch (error: any) {
+      if (error instanceof SDKError) throw error;
+      throw new SDKError(
+        `Failed to scan factory deployments: ${error.message || error}`,
+        'GET_LOGS_ERROR',
+        { factoryAddress, error: error.message || error }
+      );
+    }
+
+    return scan.deployments;
+  }
+
+  /**
+   * Add the deployment events of a block range to a scan
+   */
+  private async collectFactoryDeployments(
+    factoryAddress: string,
+    deployments: Map<string, FactoryDeployment>,
+    fromBlock: number,
+    toBlock: number,
+    maxBlockRange?: number
+  ): Promise<void> {
+    const factoryInterface = new Interface(this.FACTORY_ABI);
+    const eventName = this.getDeployEventName();
+    const logs = await getLogsChunked(
+      this.provider!,
+      { address: factoryAddress, topics: [factoryInterface.getEvent(eventName)!.topicHash] },
+      fromBlock,
+      toBlock,
+      { maxBlockRange }
+    );
+
+    for (const log of logs) {
+      const parsed = factoryInterface.parseLog({ topics: [...log.topics], data: log.data });
+      if (!parsed) continue;
+      const { contractAddress, name, symbol } = parsed.args;
+      deployments.set(String(contractAddress).toLowerCase(), {
+        contractAddress: getAddress(contractAddress),
+        name,
+        symbol,
+        blockNumber: log.blockNumber,
+        transactionHash: log.transactionHash,
+      });
+    }
+  }
+
+  /**
+   * Read-only factory contract (the manager's factory unless another address is given)
+   */
+  private getFactoryReader(factoryAddress?: string): Contract {
+    if (!this.provider) {
+      throw new SDKError('Provider is not available', 'PROVIDER_NOT_AVAILABLE');
+    }
+
+    const address = factoryAddress || this.factoryAddress;
+    if (!address) {
+      throw new SDKError(
+        'Factory address not available. Pass factoryAddress or deploy a factory first.',
+        'FACTORY_NOT_DEPLOYED'
+      );
+    }
+    validateAddress(address, 'Factory address');
+
+    return new Contract(address, this.FACTORY_ABI, this.provider);
+  }
+
+  /**
+   * Read the owner of a contract of this manager's type
+   */
+  private async readContractOwner(address: string): Promise<string> {
+    const contract = new Contract(address, this.CONTRACT_ABI, this.provider);
+    // DDCNFT exposes owner(), Membership exposes getOwner()
+    const owner = contract.interface.getFunction('owner')
+      ? await contract.owner()
+      : await contract.getOwner();
+    return getAddress(owner);
+  }
+
+  /**
+   * Read name, symbol and owner of a factory-deployed contract; failed reads are reported in `error`
+   */
+  private async readFactoryContractInfo(
+    index: number,
+    address: string,
+    deployment?: FactoryDeployment
+  ): Promise<FactoryContractInfo> {
+    const contract = new Contract(address, this.CONTRACT_ABI, this.provider);
+    const [name, symbol, owner] = await Promise.allSettled([
+      contract.name(),
+      contract.symbol(),
+      this.readContractOwner(address),
+    ]);
+    const errors = [name, symbol, owner]
+      .filter((result): result is PromiseRejectedResult => result.status === 'rejected')
+      .map(
+        (result) => result.reason?.shortMessage || result.reason?.message || String(result.reason)
+      );
+
+    return {
+      index,
+      address,
+      name: name.status === 'fulfilled' ? name.value : undefined,
+      symbol: symbol.status === 'fulfilled' ? symbol.value : undefined,
+      owner: owner.status === 'fulfilled' ? owner.value : undefined,
+      deploymentBlock: deployment?.blockNumber,
+      deploymentTransactionHash: deployment?.transactionHash,
+      ...(errors.length > 0 && { error: errors.join('; ') }),
+    };
+  }
+
   // ==================== Contract Operations ====================
 
   /**
@@ -379,33 +817,29 @@ export abstract class BaseManager<TContractType extends 'nft' | 'membership'> {
     }
 
     validateAddress(address, `${this.getManagerName()} contract address`);
-    if (!this.provider) {
-      throw new SDKError('Provider is not available', 'PROVIDER_NOT_AVAILABLE');
-    }
-    const signer = await getSigner(this.provider, this.signerConfig);
+    const signer = await this.getSigner();
     return createContract(address, this.CONTRACT_ABI, signer);
   }
 
   /**
    * Transfer contract ownership to new owner address
+   * @param options - Optional transaction lifecycle hooks
    */
+  @notifyTransactionError
   @ensureContractDeployed
-  public async transferOwnership(newOwner: string): Promise<string> {
+  public async transferOwnership(newOwner: string, options?: TransactionOptions): Promise<string> {
     const contract = await this.getContract();
 
     try {
-      const tx: ContractTransactionResponse = await contract.transferOwnership(newOwner);
-      const receipt = await tx.wait();
-
-      if (!receipt) {
-        throw new SDKError('Transaction receipt not available', 'TX_RECEIPT_ERROR');
-      }
+      const receipt = await this.sendTransaction(
+        contract,
+        'transferOwnership',
+        [newOwner],
+        options
+      );
 
       // set contract owner to new owner
-      if (!this.provider) {
-        throw new SDKError('Provider is not available', 'PROVIDER_NOT_AVAILABLE');
-      }
-      const signer = await getSigner(this.provider, this.signerConfig);
+      const signer = await this.getSigner();
       await transferContractOwner({
         address: await signer.getAddress(),
         contract: this.getContractAddress()!,
@@ -418,6 +852,7 @@ export abstract class BaseManager<TContractType extends 'nft' | 'membership'> {
       if (error instanceof SDKError) throw error;
 
       this.logger.error('Failed to transfer ownership:', error);
+      this.throwIfRevert(error, { newOwner });
       throw new SDKError('Failed to transfer ownership', 'TRANSFER_OWNERSHIP_ERROR', {
         error: error.message,
       });
@@ -426,19 +861,16 @@ export abstract class BaseManager<TContractType extends 'nft' | 'membership'> {
 
   /**
    * Set base URI
+   * @param options - Optional transaction lifecycle hooks
    */
+  @notifyTransactionError
   @ensureContractDeployed
-  public async setBaseURI(baseURI: string): Promise<void> {
+  public async setBaseURI(baseURI: string, options?: TransactionOptions): Promise<void> {
     await this.ensureNetwork();
     const contract = await this.getContract();
 
     try {
-      const tx: ContractTransactionResponse = await contract.setBaseURI(baseURI);
-      const receipt = await tx.wait();
-
-      if (!receipt) {
-        throw new SDKError('Transaction receipt not available', 'TX_RECEIPT_ERROR');
-      }
+      await this.sendTransaction(contract, 'setBaseURI', [baseURI], options);
     } catch (error: any) {
       if (error instanceof SDKError) throw error;
 
@@ -532,13 +964,659 @@ export abstract class BaseManager<TContractType extends 'nft' | 'membership'> {
     }
   }
 
+  // ==================== Event Subscriptions ====================
+
+  /**
+   * Listen for OwnershipTransferred events on the current contract
+   * @param listener - Called with the decoded event
+   * @returns Unsubscribe function
+   */
+  @ensureContractDeployed
+  public async onOwnershipTransferred(
+    listener: (event: OwnershipTransferredEvent) => void
+  ): Promise<Unsubscribe> {
+    return this.subscribe('OwnershipTransferred', listener);
+  }
+
+  /**
+   * Stop every event subscription created by this manager
+   */
+  public async removeAllEventListeners(): Promise<void> {
+    await Promise.all([...this.eventSubscriptions].map((unsubscribe) => unsubscribe()));
+  }
+
+  /**
+   * Subscribe to a contract event with decoded, typed arguments
+   * Uses the manager's provider: BrowserProvider and JsonRpcProvider both poll for new logs
+   * (set `pollingInterval` / `polling` in the provider options to tune this)
+   *
+   * @param eventName - Event name in the contract ABI
+   * @param listener - Called with the decoded event; errors are logged, not propagated
+   * @param topics - Optional indexed argument filter (null matches anything)
+   * @returns Unsubscribe function
+   */
+  protected async subscribe<K extends ContractEventName>(
+    eventName: K,
+    listener: (event: ContractEventFields[K] & ContractEventMeta) => void,
+    topics: unknown[] = []
+  ): Promise<Unsubscribe> {
+    if (!this.provider) {
+      throw new SDKError('Provider is not available', 'PROVIDER_NOT_AVAILABLE');
+    }
+
+    const contract = new Contract(this.getContractAddress()!, this.CONTRACT_ABI, this.provider);
+    const filter = topics.length > 0 ? contract.filters[eventName](...topics) : eventName;
+
+    const handler = (...args: unknown[]) => {
+      const payload = args[args.length - 1] as ContractEventPayload;
+      try {
+        listener({ ...decodeEventArgs(eventName, payload.args), ...getEventMeta(payload.log) });
+      } catch (error) {
+        this.logger.warn(`${eventName} listener threw:`, error);
+      }
+    };
+
+    try {
+      await contract.on(filter, handler);
+    } catch (error: any) {
+      throw new SDKError(
+        `Failed to subscribe to ${eventName}: ${error.message || error}`,
+        'EVENT_SUBSCRIBE_ERROR',
+        { eventName, error: error.message || error }
+      );
+    }
+
+    let active = true;
+    const unsubscribe: Unsubscribe = async () => {
+      if (!active) return;
+      active = false;
+      this.eventSubscriptions.delete(unsubscribe);
+      await contract.off(filter, handler);
+    };
+    this.eventSubscriptions.add(unsubscribe);
+
+    return unsubscribe;
+  }
+
+  // ==================== Event History ====================
+
+  /**
+   * Get past OwnershipTransferred events of the current contract
+   * @param options - Block range (default: genesis to latest)
+   * @returns Decoded events in block order, with block timestamps
+   */
+  @ensureContractDeployed
+  public async getOwnershipHistory(
+    options?: EventQueryOptions
+  ): Promise<TimestampedEvent<OwnershipTransferredEvent>[]> {
+    return this.queryEvents('OwnershipTransferred', [], options);
+  }
+
+  /**
+   * Create an incremental indexer for the current contract
+   * Call sync() to catch up, or start() to keep following new blocks
+   *
+   * @param options - Storage adapter, start block, confirmation depth and checkpoint interval
+   * @returns Indexer bound to the current contract address
+   *
+   * @example
+   * ```typescript
+   * const indexer = await manager.createIndexer({
+   *   storage: new JsonFileStorageAdapter('./index.json'),
+   *   fromBlock: deploymentBlock,
+   * });
+   * await indexer.sync();
+   * console.log(await indexer.getToken(1n));
+   * ```
+   */
+  @ensureContractDeployed
+  public async createIndexer(options?: ContractIndexerOptions): Promise<ContractIndexer> {
+    if (!this.provider) {
+      throw new SDKError('Provider is not available', 'PROVIDER_NOT_AVAILABLE');
+    }
+
+    return new ContractIndexer(
+      {
+        provider: this.provider,
+        contractAddress: this.getContractAddress()!,
+        contractType: this.CONTRACT_TYPE,
+        chainId: this.networkConfig ? Number(this.networkConfig.chain_id) : undefined,
+        debug: this.logger.debug,
+      },
+      options
+    );
+  }
+
+  /**
+   * Create a reorg-aware stream of the current contract's events
+   * Events are emitted once they are `confirmations` blocks deep; events rolled back after
+   * being emitted are reported to `onRemoved`
+   *
+   * @param options - Events, confirmation depth, polling interval and callbacks
+   * @returns Stream bound to the current contract address (call start() to begin polling)
+   *
+   * @example
+   * ```typescript
+   * const stream = await manager.createEventStream({
+   *   confirmations: 12,
+   *   onEvent: ({ name, event }) => console.log(name, event.transactionHash),
+   *   onRemoved: ({ name, event }) => console.warn('Rolled back:', name, event.transactionHash),
+   * });
+   * stream.start();
+   * ```
+   */
+  @ensureContractDeployed
+  public async createEventStream(options: EventStreamOptions): Promise<ConfirmedEventStream> {
+    if (!this.provider) {
+      throw new SDKError('Provider is not available', 'PROVIDER_NOT_AVAILABLE');
+    }
+
+    return new ConfirmedEventStream(
+      {
+        provider: this.provider,
+        contractAddress: this.getContractAddress()!,
+        abi: this.CONTRACT_ABI,
+        debug: this.logger.debug,
+      },
+      options
+    );
+  }
+
+  /**
+   * Query past events of the current contract with decoded, typed arguments and block timestamps
+   *
+   * @param eventName - Event name in the contract ABI
+   * @param topics - Optional indexed argument filter (null matches anything)
+   * @param options - Block range and initial window size
+   * @returns Decoded events sorted by block number and log index, with block timestamps
+   */
+  protected async queryEvents<K extends ContractEventName>(
+    eventName: K,
+    topics: unknown[] = [],
+    options: EventQueryOptions = {}
+  ): Promise<TimestampedEvent<ContractEventFields[K] & ContractEventMeta>[]> {
+    const events = await this.fetchEvents(eventName, topics, options);
+
+    try {
+      const timestamps = await getBlockTimestamps(
+        this.provider!,
+        events.map((event) => event.blockHash),
+        this.blockTimestamps
+      );
+      return events.map((event) => ({ ...event, timestamp: timestamps.get(event.blockHash)! }));
+    } catch (error: any) {
+      if (error instanceof SDKError) throw error;
+      throw new SDKError(
+        `Failed to read block timestamps: ${error.message || error}`,
+        'GET_LOGS_ERROR',
+        { eventName, error: error.message || error }
+      );
+    }
+  }
+
+  /**
+   * Query past events of the current contract with decoded, typed arguments
+   * The block range is split automatically when the RPC rejects large eth_getLogs windows
+   *
+   * @param eventName - Event name in the contract ABI
+   * @param topics - Optional indexed argument filter (null matches anything)
+   * @param options - Block range and initial window size
+   * @returns Decoded events sorted by block number and log index
+   */
+  protected async fetchEvents<K extends ContractEventName>(
+    eventName: K,
+    topics: unknown[] = [],
+    options: EventQueryOptions = {}
+  ): Promise<(ContractEventFields[K] & ContractEventMeta)[]> {
+    if (!this.provider) {
+      throw new SDKError('Provider is not available', 'PROVIDER_NOT_AVAILABLE');
+    }
+
+    const address = this.getContractAddress()!;
+    const contract = new Contract(address, this.CONTRACT_ABI, this.provider);
+
+    try {
+      const topicFilter = await contract.filters[eventName](...topics).getTopicFilter();
+      const fromBlock = options.fromBlock ?? 0;
+      const toBlock =
+        options.toBlock === undefined || options.toBlock === 'latest'
+          ? await this.provider.getBlockNumber()
+          : options.toBlock;
+
+      this.logger.info(`Querying ${eventName} events`, { address, fromBlock, toBlock });
+
+      const logs = await getLogsChunked(
+        this.provider,
+        { address, topics: topicFilter },
+        fromBlock,
+        toBlock,
+        { maxBlockRange: options.maxBlockRange }
+      );
+
+      return logs
+        .filter((log) => !log.removed)
+        .map((log) => {
+          const parsed = contract.interface.parseLog({ topics: [...log.topics], data: log.data })!;
+          return { ...decodeEventArgs(eventName, parsed.args), ...getEventMeta(log) };
+        })
+        .sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+    } catch (error: any) {
+      if (error instanceof SDKError) throw error;
+      throw new SDKError(
+        `Failed to query ${eventName} events: ${error.message || error}`,
+        'GET_LOGS_ERROR',
+        { eventName, error: error.message || error }
+      );
+    }
+  }
+
+  // ==================== Pending Transaction Management ====================
+
+  /**
+   * Re-send a pending transaction with higher fees (same nonce and calldata)
+   * The original write call resolves with the replacement's receipt once it is mined
+   *
+   * @param transactionHash - Hash of the pending transaction (e.g. from the onSubmitted hook)
+   * @param options - Fee bump percentage or explicit fees
+   * @returns Replacement transaction details
+   *
+   * @example
+   * ```typescript
+   * let pendingHash = '';
+   * const minting = manager.mint(1n, keyHash, { onSubmitted: (hash) => (pendingHash = hash) });
+   * // ...gas spiked, still pending
+   * await manager.speedUpTransaction(pendingHash, { feeBumpPercent: 30 });
+   * const result = await minting; // resolves from the replacement receipt
+   * ```
+   */
+  public async speedUpTransaction(
+    transactionHash: string,
+    options?: ReplacementOptions
+  ): Promise<ReplacementResult> {
+    return this.replaceTransaction(transactionHash, 'speedUp', options);
+  }
+
+  /**
+   * Cancel a pending transaction by replacing it with a zero-value self-transfer at the same nonce
+   * The original write call rejects with TRANSACTION_CANCELLED once the replacement is mined
+   *
+   * @param transactionHash - Hash of the pending transaction
+   * @param options - Fee bump percentage or explicit fees
+   * @returns Replacement transaction details
+   */
+  public async cancelTransaction(
+    transactionHash: string,
+    options?: ReplacementOptions
+  ): Promise<ReplacementResult> {
+    return this.replaceTransaction(transactionHash, 'cancel', options);
+  }
+
+  /**
+   * Build, sign and broadcast a replacement for a pending transaction
+   */
+  private async replaceTransaction(
+    transactionHash: string,
+    kind: 'speedUp' | 'cancel',
+    options: ReplacementOptions = {}
+  ): Promise<ReplacementResult> {
+    if (!this.provider) {
+      throw new SDKError('Provider is not available', 'PROVIDER_NOT_AVAILABLE');
+    }
+
+    const feeBumpPercent = options.feeBumpPercent ?? 20;
+    if (!Number.isInteger(feeBumpPercent) || feeBumpPercent < 10) {
+      throw new SDKError(
+        'feeBumpPercent must be an integer of at least 10 (nodes reject smaller fee bumps)',
+        'INVALID_PARAMETER',
+        { feeBumpPercent }
+      );
+    }
+
+    const tx = await this.provider.getTransaction(transactionHash);
+    if (!tx) {
+      throw new SDKError(`Transaction ${transactionHash} not found`, 'TRANSACTION_NOT_FOUND', {
+        transactionHash,
+      });
+    }
+    if (tx.blockNumber !== null) {
+      throw new SDKError(
+        `Transaction ${transactionHash} is already mined in block ${tx.blockNumber}`,
+        'TRANSACTION_ALREADY_MINED',
+        { transactionHash, blockNumber: tx.blockNumber }
+      );
+    }
+
+    const signer = await this.getSigner();
+    const from = await signer.getAddress();
+    if (tx.from.toLowerCase() !== from.toLowerCase()) {
+      throw new SDKError(
+        `Transaction ${transactionHash} was not sent by the manager's signer`,
+        'NOT_TRANSACTION_SENDER',
+        { transactionHash, from: tx.from, signer: from }
+      );
+    }
+
+    // Fees: the larger of the bumped original fees and the current network fees
+    const feeData = await this.provider.getFeeData();
+    const bump = (value: bigint) => (value * BigInt(100 + feeBumpPercent)) / 100n;
+    const max = (a: bigint, b: bigint | null) => (b !== null && b > a ? b : a);
+    const fees: Pick<TransactionRequest, 'maxFeePerGas' | 'maxPriorityFeePerGas' | 'gasPrice'> =
+      tx.maxFeePerGas !== null
+        ? {
+            maxFeePerGas: options.maxFeePerGas ?? max(bump(tx.maxFeePerGas), feeData.maxFeePerGas),
+            maxPriorityFeePerGas:
+              options.maxPriorityFeePerGas ??
+              max(bump(tx.maxPriorityFeePerGas ?? 0n), feeData.maxPriorityFeePerGas),
+          }
+        : { gasPrice: options.gasPrice ?? max(bump(tx.gasPrice), feeData.gasPrice) };
+
+    const request: TransactionRequest =
+      kind === 'speedUp'
+        ? { to: tx.to, data: tx.data, value: tx.value, gasLimit: tx.gasLimit }
+        : { to: from, data: '0x', value: 0n, gasLimit: 21000n };
+
+    try {
+      const replacement = await signer.sendTransaction({
+        ...request,
+        ...fees,
+        nonce: tx.nonce,
+        chainId: tx.chainId,
+        type: tx.type,
+      });
+      this.logger.info(
+        `${kind === 'speedUp' ? 'Sped up' : 'Cancelling'} transaction ${transactionHash} with ${replacement.hash}`
+      );
+
+      return {
+        transactionHash: replacement.hash,
+        replacedHash: transactionHash,
+        nonce: tx.nonce,
+        maxFeePerGas: replacement.maxFeePerGas,
+        maxPriorityFeePerGas: replacement.maxPriorityFeePerGas,
+        gasPrice: replacement.gasPrice,
+      };
+    } catch (error: any) {
+      if (error instanceof SDKError) throw error;
+
+      this.logger.error(`Failed to replace transaction ${transactionHash}:`, error);
+      if (isError(error, 'REPLACEMENT_UNDERPRICED')) {
+        throw new SDKError(
+          'Replacement fees are too low. Increase feeBumpPercent or pass higher fees.',
+          'REPLACEMENT_UNDERPRICED',
+          { transactionHash, ...fees, error: error.message }
+        );
+      }
+      if (isError(error, 'NONCE_EXPIRED')) {
+        throw new SDKError(
+          `Transaction ${transactionHash} was mined before it could be replaced`,
+          'TRANSACTION_ALREADY_MINED',
+          { transactionHash, error: error.message }
+        );
+      }
+      throw this.handleContractError(error, 'REPLACE_TRANSACTION_ERROR', { transactionHash });
+    }
+  }
+
+  // ==================== Transaction Helpers ====================
+
+  /**
+   * Send a contract write transaction and wait for its receipt
+   * When simulation is enabled, the write is first executed via staticCall
+   * @param contract - Contract instance connected to a signer
+   * @param method - Contract method name
+   * @param args - Contract method arguments
+   * @param options - Optional transaction lifecycle hooks and settings
+   */
+  protected async sendTransaction(
+    contract: Contract,
+    method: string,
+    args: unknown[],
+    options?: TransactionOptions
+  ): Promise<TransactionReceipt> {
+    this.resolveTransactionSettings(options);
+
+    if (options?.simulate ?? this.transactionConfig.simulate) {
+      await this.simulateTransaction(contract, method, args);
+    }
+
+    const tx: ContractTransactionResponse = await contract[method](...args);
+    return this.waitForTransaction(tx, options);
+  }
+
+  /**
+   * Execute a contract write via staticCall without sending it
+   * @throws SDKError with a code decoded from the revert reason (e.g. TOKEN_ALREADY_EXISTS)
+   */
+  protected async simulateTransaction(
+    contract: Contract,
+    method: string,
+    args: unknown[]
+  ): Promise<void> {
+    try {
+      await contract[method].staticCall(...args);
+    } catch (error: any) {
+      this.throwIfRevert(error, { method, args });
+
+      if (error?.code === 'CALL_EXCEPTION') {
+        throw new SDKError(
+          `Simulation of ${method} reverted without a reason`,
+          'SIMULATION_REVERTED',
+          { method, args, originalError: error.message }
+        );
+      }
+
+      throw error;
+    }
+  }
+
+  /**
+   * Resolve and validate the confirmation depth and timeout of a write
+   * Called before anything is signed, so invalid settings never leave a sent transaction behind
+   * @throws SDKError (INVALID_PARAMETER) if confirmations or timeout is out of range
+   */
+  protected resolveTransactionSettings(options?: TransactionConfig): {
+    confirmations: number;
+    timeout?: number;
+  } {
+    const confirmations = options?.confirmations ?? this.transactionConfig.confirmations ?? 1;
+    const timeout = options?.timeout ?? this.transactionConfig.timeout;
+
+    if (!Number.isInteger(confirmations) || confirmations < 1) {
+      throw new SDKError('confirmations must be a positive integer', 'INVALID_PARAMETER', {
+        confirmations,
+      });
+    }
+    if (timeout !== undefined && (!Number.isFinite(timeout) || timeout <= 0)) {
+      throw new SDKError('timeout must be a positive number of milliseconds', 'INVALID_PARAMETER', {
+        timeout,
+      });
+    }
+
+    return { confirmations, timeout };
+  }
+
+  /**
+   * Wait for a broadcast transaction, reporting progress through the lifecycle hooks
+   * Confirmation depth and timeout come from options, falling back to the manager defaults
+   * @param tx - Broadcast transaction response
+   * @param options - Optional transaction lifecycle hooks and confirmation settings
+   */
+  protected async waitForTransaction(
+    tx: TransactionResponse,
+    options?: TransactionOptions
+  ): Promise<TransactionReceipt> {
+    const { confirmations, timeout } = this.resolveTransactionSettings(options);
+
+    this.invokeHook('onSubmitted', options?.onSubmitted, tx.hash, tx);
+    const deadline = timeout !== undefined ? Date.now() + timeout : undefined;
+
+    let receipt = await this.waitForReceipt(tx, 1, deadline, timeout);
+    this.invokeHook('onMined', options?.onMined, receipt);
+
+    if (confirmations > 1) {
+      receipt = await this.waitForReceipt(tx, confirmations, deadline, timeout);
+    }
+    this.invokeHook('onConfirmed', options?.onConfirmed, receipt);
+
+    return receipt;
+  }
+
+  /**
+   * Wait until a transaction has the given number of confirmations or the deadline passes
+   * @throws SDKError TRANSACTION_TIMEOUT with the transaction hash so callers can resume tracking
+   */
+  private async waitForReceipt(
+    tx: TransactionResponse,
+    confirmations: number,
+    deadline: number | undefined,
+    timeout: number | undefined
+  ): Promise<TransactionReceipt> {
+    // ethers treats a timeout of 0 as "wait forever", so never pass less than 1ms
+    const remaining = deadline !== undefined ? Math.max(deadline - Date.now(), 1) : undefined;
+
+    let receipt: TransactionReceipt | null;
+    try {
+      receipt = await tx.wait(confirmations, remaining);
+    } catch (error: any) {
+      if (isError(error, 'TRANSACTION_REPLACED')) {
+        // Same calldata with higher fees (speedUpTransaction): the write succeeded via the replacement
+        if (!error.cancelled) {
+          this.logger.info(`Transaction ${tx.hash} was repriced as ${error.replacement.hash}`);
+          return error.receipt;
+        }
+        throw new SDKError(
+          `Transaction ${tx.hash} was ${error.reason} by ${error.replacement.hash}`,
+          'TRANSACTION_CANCELLED',
+          {
+            transactionHash: tx.hash,
+            replacementHash: error.replacement.hash,
+            reason: error.reason,
+            nonce: tx.nonce,
+          }
+        );
+      }
+      if (error?.code === 'TIMEOUT') {
+        throw new SDKError(
+          `Transaction ${tx.hash} did not reach ${confirmations} confirmation(s) within ${timeout}ms`,
+          'TRANSACTION_TIMEOUT',
+          { transactionHash: tx.hash, nonce: tx.nonce, confirmations, timeout }
+        );
+      }
+      throw error;
+    }
+
+    if (!receipt) {
+      throw new SDKError('Transaction receipt not available', 'TX_RECEIPT_ERROR', {
+        transactionHash: tx.hash,
+      });
+    }
+    return receipt;
+  }
+
+  /**
+   * Estimate gas and fees for a contract write without sending it
+   * @param contract - Contract instance connected to a signer
+   * @param method - Contract method name
+   * @param args - Contract method arguments
+   */
+  protected async estimateTransaction(
+    contract: Contract,
+    method: string,
+    args: unknown[]
+  ): Promise<GasEstimate> {
+    if (!this.provider) {
+      throw new SDKError('Provider is not available', 'PROVIDER_NOT_AVAILABLE');
+    }
+
+    try {
+      const [gasLimit, feeData] = await Promise.all([
+        contract[method].estimateGas(...args),
+        this.provider.getFeeData(),
+      ]);
+
+      const feePerGas = feeData.maxFeePerGas ?? feeData.gasPrice ?? 0n;
+      const totalCost = gasLimit * feePerGas;
+
+      return {
+        gasLimit,
+        gasPrice: feeData.gasPrice,
+        maxFeePerGas: feeData.maxFeePerGas,
+        maxPriorityFeePerGas: feeData.maxPriorityFeePerGas,
+        totalCost,
+        formattedCost: formatEther(totalCost),
+        tokenSymbol: this.networkConfig?.token_symbol || '',
+      };
+    } catch (error: any) {
+      if (error instanceof SDKError) throw error;
+
+      this.logger.error(`Failed to estimate gas for ${method}:`, error);
+      throw this.handleContractError(error, 'ESTIMATE_GAS_ERROR', { method });
+    }
+  }
+
+  /**
+   * Extract gas usage and the fee actually paid from a receipt
+   */
+  protected getReceiptCosts(receipt: TransactionReceipt): {
+    gasUsed: bigint;
+    effectiveGasPrice: bigint;
+    fee: bigint;
+  } {
+    return {
+      gasUsed: receipt.gasUsed,
+      effectiveGasPrice: receipt.gasPrice,
+      fee: receipt.fee,
+    };
+  }
+
+  /**
+   * Whether event mismatches should fail the write (per-call option, then manager default)
+   */
+  protected isStrict(options?: TransactionConfig): boolean {
+    return options?.strict ?? this.transactionConfig.strict ?? false;
+  }
+
+  /**
+   * Invoke a lifecycle hook, logging instead of propagating hook errors
+   */
+  private invokeHook<TArgs extends unknown[]>(
+    name: string,
+    hook: ((...args: TArgs) => void) | undefined,
+    ...args: TArgs
+  ): void {
+    if (!hook) return;
+    try {
+      hook(...args);
+    } catch (error) {
+      this.logger.warn(`${name} hook threw:`, error);
+    }
+  }
+
   // ==================== Error Handling Helpers ====================
 
+  /**
+   * Throw a typed SDKError if the error carries decodable revert data
+   * Custom errors, panics and revert messages from the contract artifacts are mapped to
+   * stable codes (e.g. TOKEN_ALREADY_EXISTS, NOT_OWNER, CONTRACT_PAUSED, INVALID_KEY)
+   * with the decoded arguments in SDKError.data
+   */
+  protected throwIfRevert(error: any, extra?: Record<string, unknown>): void {
+    const data = extractRevertData(error);
+    if (!data) return;
+
+    const decoded = decodeRevertData(data);
+    if (decoded) {
+      this.logger.info(`Decoded contract revert: ${decoded.signature}`, decoded.args);
+      throw revertToSDKError(decoded, { ...extra, originalError: error?.message });
+    }
+  }
+
   /**
    * Handle deployment error
    */
   protected handleDeploymentError(error: any, context: string, extra?: any): never {
     this.logger.error(`${context} deployment failed:`, error);
+    this.throwIfRevert(error, extra);
 
     if (error.code === 'INSUFFICIENT_FUNDS') {
       throw new SDKError('Insufficient funds to pay for gas fees.', 'INSUFFICIENT_FUNDS', {
@@ -577,6 +1655,8 @@ export abstract class BaseManager<TContractType extends 'nft' | 'membership'> {
    * Handle contract call error
    */
   protected handleContractError(error: any, errorCode: string, extra?: any): never {
+    this.throwIfRevert(error, extra);
+
     if (error.code === 'CALL_EXCEPTION') {
       throw new SDKError(
         'Contract call failed. Please check if you have the required permissions.',
@@ -46,3 +46,34 @@ export function ensureContractDeployed(
 
   return descriptor;
 }
+
+/**
+ * Notify transaction error decorator (generic)
+ * Forwards any error thrown by a write method to the `onError` hook of its
+ * TransactionOptions, which must be passed as the method's last argument
+ */
+export function notifyTransactionError(
+  target: any,
+  propertyKey: string,
+  descriptor: PropertyDescriptor
+) {
+  const originalMethod = descriptor.value;
+
+  descriptor.value = async function (this: any, ...args: any[]) {
+    try {
+      return await originalMethod.apply(this, args);
+    } catch (error) {
+      const options = args[args.length - 1];
+      if (options && typeof options === 'object' && typeof options.onError === 'function') {
+        try {
+          options.onError(error);
+        } catch (hookError) {
+          this.logger?.warn(`onError hook of ${propertyKey} threw:`, hookError);
+        }
+      }
+      throw error;
+    }
+  };
+
+  return descriptor;
+}
@@ -1,2 +1,6 @@
 export { BaseManager } from './BaseManager';
-export { ensureFactoryDeployed, ensureContractDeployed } from './decorators';
\ No newline at end of file
+export {
+  ensureFactoryDeployed,
+  ensureContractDeployed,
+  notifyTransactionError,
+} from './decorators';
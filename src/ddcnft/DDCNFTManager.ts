@@ -1,17 +1,55 @@
-import {
-  Contract,
-  ContractTransactionResponse,
-  Interface,
-  BrowserProvider,
-  JsonRpcProvider,
-} from 'ethers';
-import type { DeploymentResult, ManagerParams, ManagerConfig } from '../types';
+import { Contract, Interface, BrowserProvider, JsonRpcProvider, isHexString } from 'ethers';
+import type {
+  DeploymentResult,
+  ManagerParams,
+  ManagerConfig,
+  TransactionOptions,
+  GasEstimate,
+  DDCNFTGasEstimator,
+  MintResult,
+  DestroyResult,
+  TransferResult,
+  MintBatchItem,
+  MintBatchOptions,
+  BatchResult,
+  TransferEvent,
+  TokenDestroyedEvent,
+  PausedEvent,
+  PauseHistoryEvent,
+  ProvenanceStep,
+  TokenProvenance,
+  ListTokensOptions,
+  TokenListEntry,
+  TokenPage,
+  Unsubscribe,
+  EventQueryOptions,
+  TimestampedEvent,
+  KeyPolicy,
+  KeyedMintResult,
+  KeyedTransferResult,
+  KeySource,
+  WalletKeyReference,
+} from '../types';
 import { SDKError } from '../types';
-import { resolveProvider, getSigner, resolveWalletAddress } from '../utils';
+import {
+  resolveProvider,
+  resolveWalletAddress,
+  getKeyHash,
+  runBatch,
+  generateKey,
+  parseKey,
+  assertKeyPolicy,
+  deriveWalletKey,
+} from '../utils';
 import { DDCNFT_ABI, DDCNFT_FACTORY_ABI } from '../abi';
 import { authLogin, getDDCConfig, getNonce, uploadSts } from '../service/api';
 import DDCNFTFactoryJson from '../abi/DDCNFTFactory.json';
-import { BaseManager, ensureFactoryDeployed, ensureContractDeployed } from '../base';
+import {
+  BaseManager,
+  ensureFactoryDeployed,
+  ensureContractDeployed,
+  notifyTransactionError,
+} from '../base';
 import { createContract, buildLoginMessage, signLoginMessage, uplloadOssStsFile } from '../utils';
 import { PutObjectResult } from 'ali-oss';
 
@@ -27,6 +65,9 @@ export class DDCNFTManager extends BaseManager<'nft'> {
 
   private static instance: DDCNFTManager | null = null;
 
+  /** Strength policy for keys passed to mintWithKey() / transferToKey() */
+  private readonly keyPolicy: KeyPolicy;
+
   protected getManagerName(): string {
     return 'DDCNFTManager';
   }
@@ -42,6 +83,7 @@ export class DDCNFTManager extends BaseManager<'nft'> {
 
   constructor(config: ManagerConfig) {
     super(config);
+    this.keyPolicy = config?.keyPolicy || {};
   }
 
   /**
@@ -90,12 +132,16 @@ export class DDCNFTManager extends BaseManager<'nft'> {
    * @private
    * @param receipt - Transaction receipt
    * @param expectedTokenId - Expected token ID that should be minted
+   * @param expectedToHash - Expected key hash the token was minted to
+   * @param strict - Throw instead of warning when 'fromHash' is not bytes32 zero value
    * @returns Parsed transfer information
    * @throws SDKError if event not found or parameters don't match
    */
   private async parseTransferEvent(
     receipt: any,
-    expectedTokenId: bigint
+    expectedTokenId: bigint,
+    expectedToHash: string,
+    strict = false
   ): Promise<{ fromHash: string; toHash: string; tokenId: bigint }> {
     try {
       // Create a fresh Interface instance to avoid ethers.js v6 internal class check issues
@@ -121,9 +167,15 @@ export class DDCNFTManager extends BaseManager<'nft'> {
             const isZeroHash = fromHash.toLowerCase() === this.BYTES32_ZERO.toLowerCase();
 
             if (!isZeroHash) {
-              this.logger.warn(
-                `Transfer event 'fromHash' is not bytes32 zero value, this may not be a mint operation. Got: ${fromHash}`
-              );
+              const message = `Transfer event 'fromHash' is not bytes32 zero value, this may not be a mint operation. Got: ${fromHash}`;
+              if (strict) {
+                throw new SDKError(message, 'EVENT_MISMATCH', {
+                  txHash: receipt.hash,
+                  expected: this.BYTES32_ZERO,
+                  actual: fromHash,
+                });
+              }
+              this.logger.warn(message);
             }
 
             // Verify tokenId matches
@@ -135,6 +187,15 @@ export class DDCNFTManager extends BaseManager<'nft'> {
               );
             }
 
+            // Verify key hash matches
+            if (toHash.toLowerCase() !== expectedToHash.toLowerCase()) {
+              throw new SDKError(
+                `Minted to key hash (${toHash}) does not match expected hash (${expectedToHash})`,
+                'RECIPIENT_MISMATCH',
+                { expected: expectedToHash, actual: toHash }
+              );
+            }
+
             return {
               fromHash,
               toHash,
@@ -244,12 +305,14 @@ export class DDCNFTManager extends BaseManager<'nft'> {
    * @private
    * @param receipt - Transaction receipt
    * @param expectedTokenId - Expected token ID that should be destroyed
+   * @param strict - Throw instead of warning when 'toHash' is not bytes32 zero value
    * @returns Parsed burn information with keyHash, zero toHash, and tokenId
    * @throws SDKError if event not found or parameters don't match
    */
   private async parseTransferEventForDestroy(
     receipt: any,
-    expectedTokenId: bigint
+    expectedTokenId: bigint,
+    strict = false
   ): Promise<{ fromHash: string; toHash: string; tokenId: bigint }> {
     try {
       // Create a fresh Interface instance to avoid ethers.js v6 internal class check issues
@@ -275,9 +338,15 @@ export class DDCNFTManager extends BaseManager<'nft'> {
             const isZeroHash = toHash.toLowerCase() === this.BYTES32_ZERO.toLowerCase();
 
             if (!isZeroHash) {
-              this.logger.warn(
-                `Transfer event 'toHash' is not bytes32 zero value, this may not be a destroy operation. Got: ${toHash}`
-              );
+              const message = `Transfer event 'toHash' is not bytes32 zero value, this may not be a destroy operation. Got: ${toHash}`;
+              if (strict) {
+                throw new SDKError(message, 'EVENT_MISMATCH', {
+                  txHash: receipt.hash,
+                  expected: this.BYTES32_ZERO,
+                  actual: toHash,
+                });
+              }
+              this.logger.warn(message);
             }
 
             // Verify tokenId matches
@@ -381,6 +450,449 @@ export class DDCNFTManager extends BaseManager<'nft'> {
     );
   }
 
+  /**
+   * Validate every batch mint item and reject duplicate tokenIds
+   * @private
+   * @throws SDKError with the offending item's index in data
+   */
+  private validateMintBatch(items: MintBatchItem[]): void {
+    if (!Array.isArray(items) || items.length === 0) {
+      throw new SDKError('items must be a non-empty array', 'INVALID_PARAMETER', { items });
+    }
+
+    const seen = new Map<bigint, number>();
+    items.forEach((item, index) => {
+      try {
+        this.validateMintParams(item?.tokenId, item?.keyHash);
+      } catch (error) {
+        if (!(error instanceof SDKError)) throw error;
+        throw new SDKError(`Invalid batch item at index ${index}: ${error.message}`, error.code, {
+          ...(error.data as object),
+          index,
+        });
+      }
+
+      const firstIndex = seen.get(item.tokenId);
+      if (firstIndex !== undefined) {
+        throw new SDKError(
+          `Duplicate tokenId ${item.tokenId} at index ${index} (first seen at index ${firstIndex})`,
+          'DUPLICATE_TOKEN_ID',
+          { tokenId: item.tokenId, index, firstIndex }
+        );
+      }
+      seen.set(item.tokenId, index);
+    });
+  }
+
+  /**
+   * Validate mint parameters
+   * @private
+   * @throws SDKError if tokenId is zero or keyHash is not a non-zero bytes32 value
+   */
+  private validateMintParams(tokenId: bigint, keyHash: string): void {
+    // Validate tokenId
+    if (!tokenId || tokenId === 0n) {
+      throw new SDKError('tokenId must be non-zero', 'INVALID_TOKEN_ID', { tokenId });
+    }
+
+    // Validate keyHash is provided
+    if (!keyHash || !keyHash.trim()) {
+      throw new SDKError('keyHash is required for minting', 'MISSING_KEY_HASH', { keyHash });
+    }
+
+    // Validate keyHash format
+    if (!isHexString(keyHash, 32)) {
+      throw new SDKError(
+        'Invalid keyHash format. Expected bytes32 (0x + 64 hex characters)',
+        'INVALID_PARAMETER',
+        { keyHash }
+      );
+    }
+
+    // Validate keyHash is not zero (contract requirement)
+    if (keyHash.toLowerCase() === this.BYTES32_ZERO.toLowerCase()) {
+      throw new SDKError(
+        'keyHash cannot be bytes32 zero value. Please provide a valid key hash generated from keccak256(key).',
+        'INVALID_KEY_HASH',
+        { keyHash }
+      );
+    }
+  }
+
+  /**
+   * Validate destroy parameters
+   * @private
+   */
+  private validateDestroyParams(tokenId: bigint, key: string): void {
+    if (!tokenId) {
+      throw new SDKError('tokenId is required for destroying', 'MISSING_TOKEN_ID', { tokenId });
+    }
+
+    if (!key || !key.trim()) {
+      throw new SDKError('Destroy key cannot be empty', 'INVALID_PARAMETER', { key });
+    }
+  }
+
+  /**
+   * Validate transfer parameters
+   * @private
+   */
+  private validateTransferParams(toHash: string, key: string): void {
+    // Validate toHash is a valid bytes32 value
+    if (!toHash || toHash.length !== 66 || !toHash.startsWith('0x')) {
+      throw new SDKError(
+        'Invalid toHash format. Expected bytes32 (0x + 64 hex characters)',
+        'INVALID_PARAMETER',
+        { toHash }
+      );
+    }
+
+    if (!key || !key.trim()) {
+      throw new SDKError('Transfer key cannot be empty', 'INVALID_PARAMETER', { key });
+    }
+  }
+
+  /**
+   * Validate setTokenURI parameters
+   * @private
+   */
+  private validateSetTokenURIParams(tokenId: bigint, uri: string): void {
+    // Validate tokenId
+    if (!tokenId || tokenId === 0n) {
+      throw new SDKError('tokenId must be non-zero', 'INVALID_TOKEN_ID', { tokenId });
+    }
+
+    // Validate uri
+    if (!uri || typeof uri !== 'string') {
+      throw new SDKError('uri must be a non-empty string', 'INVALID_PARAMETER', { uri });
+    }
+  }
+
+  /**
+   * Listen for Transfer events (mint, transfer and destroy all emit one)
+   *
+   * @param listener - Called with the decoded event (`from`/`to` are key hashes, bytes32 zero for mint/destroy)
+   * @param filter - Only report events for this tokenId
+   * @returns Unsubscribe function
+   *
+   * @example
+   * ```typescript
+   * const unsubscribe = await ddcnftManager.onTransfer((event) => {
+   *   console.log(`Token #${event.tokenId}: ${event.from} -> ${event.to} (block ${event.blockNumber})`);
+   * });
+   * // later
+   * await unsubscribe();
+   * ```
+   */
+  @ensureContractDeployed
+  async onTransfer(
+    listener: (event: TransferEvent) => void,
+    filter?: { tokenId?: bigint }
+  ): Promise<Unsubscribe> {
+    return this.subscribe(
+      'Transfer',
+      listener,
+      filter?.tokenId !== undefined ? [null, null, filter.tokenId] : []
+    );
+  }
+
+  /**
+   * Listen for TokenDestroyed events
+   * @param listener - Called with the decoded event (`ownerHash` is the key hash used to destroy)
+   * @param filter - Only report events for this tokenId
+   * @returns Unsubscribe function
+   */
+  @ensureContractDeployed
+  async onTokenDestroyed(
+    listener: (event: TokenDestroyedEvent) => void,
+    filter?: { tokenId?: bigint }
+  ): Promise<Unsubscribe> {
+    return this.subscribe(
+      'TokenDestroyed',
+      listener,
+      filter?.tokenId !== undefined ? [filter.tokenId] : []
+    );
+  }
+
+  /**
+   * Listen for Paused events
+   * @param listener - Called with the account that paused the contract
+   * @returns Unsubscribe function
+   */
+  @ensureContractDeployed
+  async onPaused(listener: (event: PausedEvent) => void): Promise<Unsubscribe> {
+    return this.subscribe('Paused', listener);
+  }
+
+  /**
+   * Listen for Unpaused events
+   * @param listener - Called with the account that unpaused the contract
+   * @returns Unsubscribe function
+   */
+  @ensureContractDeployed
+  async onUnpaused(listener: (event: PausedEvent) => void): Promise<Unsubscribe> {
+    return this.subscribe('Unpaused', listener);
+  }
+
+  /**
+   * Get past Transfer events (mints, transfers and destroys)
+   *
+   * @param tokenId - Only return events for this tokenId (default: all tokens)
+   * @param options - Block range (default: genesis to latest) and initial eth_getLogs window
+   * @returns Decoded events in block order, with block timestamps
+   *
+   * @example
+   * ```typescript
+   * const history = await ddcnftManager.getTransferHistory(1n, { fromBlock: deploymentBlock });
+   * history.forEach((e) => console.log(new Date(e.timestamp * 1000), e.from, '->', e.to));
+   * ```
+   */
+  @ensureContractDeployed
+  async getTransferHistory(
+    tokenId?: bigint,
+    options?: EventQueryOptions
+  ): Promise<TimestampedEvent<TransferEvent>[]> {
+    return this.queryEvents(
+      'Transfer',
+      tokenId !== undefined ? [null, null, tokenId] : [],
+      options
+    );
+  }
+
+  /**
+   * Get past TokenDestroyed events
+   * @param tokenId - Only return events for this tokenId (default: all tokens)
+   * @param options - Block range (default: genesis to latest) and initial eth_getLogs window
+   * @returns Decoded events in block order, with block timestamps
+   */
+  @ensureContractDeployed
+  async getDestroyHistory(
+    tokenId?: bigint,
+    options?: EventQueryOptions
+  ): Promise<TimestampedEvent<TokenDestroyedEvent>[]> {
+    return this.queryEvents('TokenDestroyed', tokenId !== undefined ? [tokenId] : [], options);
+  }
+
+  /**
+   * Get past Paused and Unpaused events, merged in block order
+   * @param options - Block range (default: genesis to latest) and initial eth_getLogs window
+   * @returns Decoded events with a `paused` flag and block timestamps
+   */
+  @ensureContractDeployed
+  async getPauseHistory(
+    options?: EventQueryOptions
+  ): Promise<TimestampedEvent<PauseHistoryEvent>[]> {
+    const [paused, unpaused] = await Promise.all([
+      this.queryEvents('Paused', [], options),
+      this.queryEvents('Unpaused', [], options),
+    ]);
+
+    return [
+      ...paused.map((event) => ({ ...event, paused: true })),
+      ...unpaused.map((event) => ({ ...event, paused: false })),
+    ].sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+  }
+
+  /**
+   * Rebuild the ownership chain of a token (mint hash -> each transfer hash -> destroy)
+   * from its Transfer and TokenDestroyed events
+   *
+   * @param tokenId - Token ID to audit
+   * @param options - Block range (default: genesis to latest) and initial eth_getLogs window
+   * @returns Steps with key hashes, transaction hashes and block timestamps
+   * @throws SDKError (TOKEN_NOT_FOUND) if the token has no events in the range
+   *
+   * @example
+   * ```typescript
+   * const provenance = await ddcnftManager.getProvenance(42n);
+   * for (const step of provenance.steps) {
+   *   console.log(step.type, step.fromHash, '->', step.toHash, step.transactionHash);
+   * }
+   * if (!provenance.complete) console.warn('History is incomplete for the queried range');
+   * ```
+   */
+  @ensureContractDeployed
+  async getProvenance(tokenId: bigint, options?: EventQueryOptions): Promise<TokenProvenance> {
+    if (!tokenId || tokenId === 0n) {
+      throw new SDKError('tokenId must be non-zero', 'INVALID_TOKEN_ID', { tokenId });
+    }
+
+    const [transfers, destroys] = await Promise.all([
+      this.getTransferHistory(tokenId, options),
+      this.getDestroyHistory(tokenId, options),
+    ]);
+
+    if (transfers.length === 0 && destroys.length === 0) {
+      throw new SDKError(`No history found for token ${tokenId}`, 'TOKEN_NOT_FOUND', {
+        tokenId,
+        fromBlock: options?.fromBlock ?? 0,
+      });
+    }
+
+    const isZero = (hash: string) => hash.toLowerCase() === this.BYTES32_ZERO;
+    const steps: ProvenanceStep[] = transfers.map(({ from, to, tokenId: _, ...meta }) => ({
+      ...meta,
+      type: isZero(from) ? 'mint' : isZero(to) ? 'destroy' : 'transfer',
+      fromHash: isZero(from) ? null : from,
+      toHash: isZero(to) ? null : to,
+    }));
+
+    // Destroy emits both events; only add a step when its Transfer is missing
+    for (const { ownerHash, tokenId: _, ...meta } of destroys) {
+      const covered = steps.some(
+        (step) => step.type === 'destroy' && step.transactionHash === meta.transactionHash
+      );
+      if (!covered) {
+        steps.push({ ...meta, type: 'destroy', fromHash: ownerHash, toHash: null });
+      }
+    }
+    steps.sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+
+    let holder: string | null = null;
+    let complete = true;
+    for (const step of steps) {
+      if (step.fromHash?.toLowerCase() !== holder?.toLowerCase()) {
+        complete = false;
+      }
+      holder = step.toHash;
+    }
+
+    return {
+      tokenId,
+      steps,
+      currentHolderHash: holder,
+      destroyed: steps[steps.length - 1].type === 'destroy',
+      complete,
+    };
+  }
+
+  /**
+   * List the tokens of the current collection, derived from mint/transfer/destroy events
+   * (the contract has no totalSupply or enumeration)
+   *
+   * @param options - Filter, pagination, enrichment and block range
+   * @returns One page of tokens in tokenId order, with the total count
+   *
+   * @example
+   * ```typescript
+   * const page = await ddcnftManager.listTokens({ enrich: true, limit: 20 });
+   * page.tokens.forEach((t) => console.log(t.tokenId, t.holderHash, t.tokenURI));
+   * if (page.hasMore) await ddcnftManager.listTokens({ offset: 20, limit: 20 });
+   * ```
+   */
+  @ensureContractDeployed
+  async listTokens(options: ListTokensOptions = {}): Promise<TokenPage> {
+    const { includeDestroyed = false, enrich = false, offset = 0, limit = 100, ...range } = options;
+    if (!Number.isInteger(offset) || offset < 0) {
+      throw new SDKError('offset must be a non-negative integer', 'INVALID_PARAMETER', { offset });
+    }
+    if (!Number.isInteger(limit) || limit < 1) {
+      throw new SDKError('limit must be a positive integer', 'INVALID_PARAMETER', { limit });
+    }
+
+    const tokens = new Map<bigint, TokenListEntry>();
+    for (const event of await this.fetchEvents('Transfer', [], range)) {
+      if (event.from.toLowerCase() === this.BYTES32_ZERO) {
+        tokens.set(event.tokenId, {
+          tokenId: event.tokenId,
+          destroyed: false,
+          mintedBlock: event.blockNumber,
+          mintTransactionHash: event.transactionHash,
+        });
+      } else if (event.to.toLowerCase() === this.BYTES32_ZERO) {
+        const token = tokens.get(event.tokenId);
+        if (token) token.destroyed = true;
+      }
+    }
+
+    const matching = [...tokens.values()]
+      .filter((token) => includeDestroyed || !token.destroyed)
+      .sort((a, b) => (a.tokenId < b.tokenId ? -1 : a.tokenId > b.tokenId ? 1 : 0));
+    const page = matching.slice(offset, offset + limit);
+
+    if (enrich) {
+      const contract = await this.getContract();
+      const live = page.filter((token) => !token.destroyed);
+      const batch = await runBatch(
+        live,
+        async (token) => {
+          const [tokenURI, holderHash] = await Promise.all([
+            contract.tokenURI(token.tokenId),
+            contract.ownerOf(token.tokenId),
+          ]);
+          Object.assign(token, { tokenURI, holderHash });
+        },
+        { concurrency: 5 }
+      );
+      for (const { item, error } of batch.results.filter((r) => r.status === 'rejected')) {
+        this.logger.warn(`Failed to enrich token ${item.tokenId}:`, error?.message);
+      }
+    }
+
+    return {
+      tokens: page,
+      total: matching.length,
+      offset,
+      limit,
+      hasMore: offset + page.length < matching.length,
+    };
+  }
+
+  /**
+   * Gas and fee estimation for DDCNFT operations
+   * Each estimator runs the same parameter validation as the corresponding write method
+   *
+   * @example
+   * ```typescript
+   * const estimate = await ddcnftManager.estimate.mint(1n, keyHash);
+   * console.log(`Mint costs about ${estimate.formattedCost} ${estimate.tokenSymbol}`);
+   * ```
+   */
+  public get estimate(): DDCNFTGasEstimator {
+    return {
+      mint: (tokenId, keyHash) => this.estimateMint(tokenId, keyHash),
+      transfer: (toHash, tokenId, key) => this.estimateTransfer(toHash, tokenId, key),
+      destroy: (tokenId, key) => this.estimateDestroy(tokenId, key),
+      setTokenURI: (tokenId, uri) => this.estimateSetTokenURI(tokenId, uri),
+    };
+  }
+
+  @ensureContractDeployed
+  private async estimateMint(tokenId: bigint, keyHash: string): Promise<GasEstimate> {
+    this.validateMintParams(tokenId, keyHash);
+    const contract = await this.getContract();
+    return this.estimateTransaction(contract, 'mint', [tokenId, keyHash]);
+  }
+
+  @ensureContractDeployed
+  private async estimateTransfer(
+    toHash: string,
+    tokenId: bigint,
+    key: KeySource
+  ): Promise<GasEstimate> {
+    const resolvedKey = await this.resolveKey(key, tokenId);
+    this.validateTransferParams(toHash, resolvedKey);
+    const contract = await this.getContract();
+    const plainKey = await this.matchHolderKey(tokenId, resolvedKey);
+    return this.estimateTransaction(contract, 'transfer', [toHash, tokenId, plainKey]);
+  }
+
+  @ensureContractDeployed
+  private async estimateDestroy(tokenId: bigint, key: KeySource): Promise<GasEstimate> {
+    const resolvedKey = await this.resolveKey(key, tokenId);
+    this.validateDestroyParams(tokenId, resolvedKey);
+    const contract = await this.getContract();
+    const plainKey = await this.matchHolderKey(tokenId, resolvedKey);
+    return this.estimateTransaction(contract, 'destroy', [tokenId, plainKey]);
+  }
+
+  @ensureContractDeployed
+  private async estimateSetTokenURI(tokenId: bigint, uri: string): Promise<GasEstimate> {
+    this.validateSetTokenURIParams(tokenId, uri);
+    const contract = await this.getContract();
+    return this.estimateTransaction(contract, 'setTokenURI', [tokenId, uri]);
+  }
+
   /**
    * Init Instance of DDCNFTManager
    * Supports both BrowserProvider and JsonRpcProvider modes
@@ -415,7 +927,7 @@ export class DDCNFTManager extends BaseManager<'nft'> {
       });
     }
 
-    const { walletAddress, provider, signer, debug } = manageConfig;
+    const { walletAddress, provider, signer, debug, transaction, keyPolicy } = manageConfig;
 
     // Resolve wallet address: if JsonRpcProvider mode and signer provided, extract from privateKey
     // Wallet object has address property that can be accessed synchronously
@@ -450,6 +962,8 @@ export class DDCNFTManager extends BaseManager<'nft'> {
       network: network,
       factoryAddress: nft_factory_address,
       signerConfig: signer,
+      transaction,
+      keyPolicy,
     };
 
     this.instance = new DDCNFTManager(config);
@@ -457,10 +971,7 @@ export class DDCNFTManager extends BaseManager<'nft'> {
 
     if (config.factoryAddress) {
       this.instance.factoryAddress = config.factoryAddress;
-      if (!this.instance.provider) {
-        throw new SDKError('Provider is not available', 'PROVIDER_NOT_AVAILABLE');
-      }
-      const signerInstance = await getSigner(this.instance.provider, this.instance.signerConfig);
+      const signerInstance = await this.instance.getSigner();
       this.instance.factoryContract = createContract(
         config.factoryAddress,
         DDCNFT_FACTORY_ABI,
@@ -483,8 +994,8 @@ export class DDCNFTManager extends BaseManager<'nft'> {
    * Deploy DDCNFTFactory contract (alias for base deployFactory)
    * @deprecated Use deployFactory() instead
    */
-  async deployDDCFactory(): Promise<DeploymentResult> {
-    return this.deployFactory();
+  async deployDDCFactory(options?: TransactionOptions): Promise<DeploymentResult> {
+    return this.deployFactory(options);
   }
 
   /**
@@ -492,47 +1003,49 @@ export class DDCNFTManager extends BaseManager<'nft'> {
    * @deprecated Use deployContract() instead
    */
   @ensureFactoryDeployed
-  async deployDDCNFT(name: string, symbol: string): Promise<DeploymentResult> {
-    return this.deployContract(name, symbol);
+  async deployDDCNFT(
+    name: string,
+    symbol: string,
+    options?: TransactionOptions
+  ): Promise<DeploymentResult> {
+    return this.deployContract(name, symbol, options);
   }
 
   /**
    * pause the DDCNFT contract
+   * @param options - Optional transaction lifecycle hooks
    * @returns Transaction hash
    */
-  async pause(): Promise<string> {
+  @notifyTransactionError
+  async pause(options?: TransactionOptions): Promise<string> {
     const contract = await this.getContract();
 
     try {
-      const tx: ContractTransactionResponse = await contract.pause();
-      const receipt = await tx.wait();
-      if (!receipt) {
-        throw new SDKError('Transaction receipt not available', 'TX_RECEIPT_ERROR');
-      }
+      const receipt = await this.sendTransaction(contract, 'pause', [], options);
       return receipt.hash;
     } catch (error: any) {
       if (error instanceof SDKError) throw error;
       this.logger.error('Failed to pause:', error);
+      this.throwIfRevert(error);
       throw new SDKError('Failed to pause', 'PAUSE_ERROR', { error: error.message });
     }
   }
 
   /**
    * unpause the DDCNFT contract
+   * @param options - Optional transaction lifecycle hooks
    * @returns Transaction hash
    */
-  async unpause(): Promise<string> {
+  @notifyTransactionError
+  async unpause(options?: TransactionOptions): Promise<string> {
     const contract = await this.getContract();
     try {
-      const tx: ContractTransactionResponse = await contract.unpause();
-      const receipt = await tx.wait();
-      if (!receipt) {
-        throw new SDKError('Transaction receipt not available', 'TX_RECEIPT_ERROR');
-      }
+      const receipt = await this.sendTransaction(contract, 'unpause', [], options);
       return receipt.hash;
     } catch (error: any) {
       if (error instanceof SDKError) throw error;
       this.logger.error('Failed to unpause:', error);
+      this.throwIfRevert(error);
       throw new SDKError('Failed to unpause', 'UNPAUSE_ERROR', { error: error.message });
     }
   }
@@ -712,40 +1225,33 @@ export class DDCNFTManager extends BaseManager<'nft'> {
    *
    * @param tokenId - Token ID to set URI for
    * @param uri - Full URI string for the token
+   * @param options - Optional transaction lifecycle hooks
    * @returns Transaction hash
    */
+  @notifyTransactionError
   @ensureContractDeployed
-  public async setTokenURI(tokenId: bigint, uri: string): Promise<string> {
+  public async setTokenURI(
+    tokenId: bigint,
+    uri: string,
+    options?: TransactionOptions
+  ): Promise<string> {
     await this.ensureNetwork();
     const contract = await this.getContract();
-
-    // Validate tokenId
-    if (!tokenId || tokenId === 0n) {
-      throw new SDKError('tokenId must be non-zero', 'INVALID_TOKEN_ID', { tokenId });
-    }
-
-    // Validate uri
-    if (!uri || typeof uri !== 'string') {
-      throw new SDKError('uri must be a non-empty string', 'INVALID_PARAMETER', { uri });
-    }
+    this.validateSetTokenURIParams(tokenId, uri);
 
     try {
       // step 1: auth api
       // await this._authApi(tokenId, uri);
       // step 2: set token uri
-      const tx: ContractTransactionResponse = await contract.setTokenURI(tokenId, uri);
-      const receipt = await tx.wait();
-
-      if (!receipt) {
-        throw new SDKError('Transaction receipt not available', 'TX_RECEIPT_ERROR');
-      }
-
+      const receipt = await this.sendTransaction(contract, 'setTokenURI', [tokenId, uri], options);
       return receipt.hash;
     } catch (error: any) {
       if (error instanceof SDKError) throw error;
 
       this.logger.error('Failed to set token URI:', error);
 
+      this.throwIfRevert(error, { tokenId, uri });
+
       if (error.code === 'CALL_EXCEPTION') {
         throw new SDKError(
           'Contract call failed. The token may not exist, you may not have permission to set URI, or the contract may be paused.',
@@ -784,10 +1290,12 @@ export class DDCNFTManager extends BaseManager<'nft'> {
    * This frees up the storage slot used by the individual URI
    *
    * @param tokenId - Token ID to clear URI for
+   * @param options - Optional transaction lifecycle hooks
    * @returns Transaction hash
    */
+  @notifyTransactionError
   @ensureContractDeployed
-  async clearTokenURI(tokenId: bigint): Promise<string> {
+  async clearTokenURI(tokenId: bigint, options?: TransactionOptions): Promise<string> {
     await this.ensureNetwork();
     const contract = await this.getContract();
 
@@ -797,19 +1305,15 @@ export class DDCNFTManager extends BaseManager<'nft'> {
     }
 
     try {
-      const tx: ContractTransactionResponse = await contract.clearTokenURI(tokenId);
-      const receipt = await tx.wait();
-
-      if (!receipt) {
-        throw new SDKError('Transaction receipt not available', 'TX_RECEIPT_ERROR');
-      }
-
+      const receipt = await this.sendTransaction(contract, 'clearTokenURI', [tokenId], options);
       return receipt.hash;
     } catch (error: any) {
       if (error instanceof SDKError) throw error;
 
       this.logger.error('Failed to clear token URI:', error);
 
+      this.throwIfRevert(error, { tokenId });
+
       if (error.code === 'CALL_EXCEPTION') {
         throw new SDKError(
           'Contract call failed. The token may not exist, you may not have permission to clear URI, or the contract may be paused.',
@@ -870,70 +1374,58 @@ export class DDCNFTManager extends BaseManager<'nft'> {
   /**
    * Mint NFT token
    * Note: NFT will be minted to the contract owner (caller of this function)
+   * The key policy (`keyPolicy` in init()) cannot be applied to a precomputed hash; use
+   * mintWithKey() to have the SDK generate the key or check a supplied one
    *
    * @param tokenId - Token ID to mint (must be non-zero)
    * @param keyHash - Key hash (bytes32, keccak256 hash of user's key, cannot be zero hash)
-   * @returns Transaction hash
+   * @param options - Optional transaction lifecycle hooks (`strict` fails on event mismatch)
+   * @returns Mint result with token information and transaction details
    */
+  @notifyTransactionError
   @ensureContractDeployed
-  async mint(tokenId: bigint, keyHash: string): Promise<string> {
+  async mint(tokenId: bigint, keyHash: string, options?: TransactionOptions): Promise<MintResult> {
     await this.ensureNetwork();
     const contract = await this.getContract();
-
-    // Validate tokenId
-    if (!tokenId || tokenId === 0n) {
-      throw new SDKError('tokenId must be non-zero', 'INVALID_TOKEN_ID', { tokenId });
-    }
-
-    // Validate keyHash is provided
-    if (!keyHash || !keyHash.trim()) {
-      throw new SDKError('keyHash is required for minting', 'MISSING_KEY_HASH', { keyHash });
-    }
-
-    // Validate keyHash format
-    if (keyHash.length !== 66 || !keyHash.startsWith('0x')) {
-      throw new SDKError(
-        'Invalid keyHash format. Expected bytes32 (0x + 64 hex characters)',
-        'INVALID_PARAMETER',
-        { keyHash }
-      );
-    }
-
-    // Validate keyHash is not zero (contract requirement)
-    if (keyHash.toLowerCase() === this.BYTES32_ZERO.toLowerCase()) {
-      throw new SDKError(
-        'keyHash cannot be bytes32 zero value. Please provide a valid key hash generated from keccak256(key).',
-        'INVALID_KEY_HASH',
-        { keyHash }
-      );
-    }
+    this.validateMintParams(tokenId, keyHash);
 
     try {
       // this.logger.info('Sending mint transaction...');
-      const tx: ContractTransactionResponse = await contract.mint(tokenId, keyHash);
-
-      // this.logger.info(`Mint transaction sent: ${tx.hash}. Waiting for confirmation...`);
-      const receipt = await tx.wait();
-
-      if (!receipt) {
-        throw new SDKError('Transaction receipt not available', 'TX_RECEIPT_ERROR');
-      }
+      const receipt = await this.sendTransaction(contract, 'mint', [tokenId, keyHash], options);
+      const result: MintResult = {
+        tokenId,
+        to: keyHash,
+        transactionHash: receipt.hash,
+        blockNumber: receipt.blockNumber,
+        ...this.getReceiptCosts(receipt),
+        verified: false,
+      };
 
       // Verify mint via Transfer event
       try {
-        this.parseTransferEvent(receipt, tokenId);
+        const transferEvent = await this.parseTransferEvent(
+          receipt,
+          tokenId,
+          keyHash,
+          this.isStrict(options)
+        );
+        result.to = transferEvent.toHash;
+        result.verified = true;
       } catch (eventError) {
+        if (this.isStrict(options)) throw eventError;
         // Mint succeeded but event verification failed - log warning but don't fail
         this.logger.warn('Mint completed but event verification failed:', eventError);
       }
 
       // this.logger.info(`NFT minted successfully. Transaction: ${receipt.hash}`);
-      return receipt.hash;
+      return result;
     } catch (error: any) {
       if (error instanceof SDKError) throw error;
 
       this.logger.error('Failed to mint NFT:', error);
 
+      this.throwIfRevert(error, { tokenId, keyHash });
+
       if (error.code === 'CALL_EXCEPTION') {
         throw new SDKError(
           'Contract call failed. The token may already exist, you may not have minting permission, or the contract may be paused.',
@@ -962,63 +1454,111 @@ export class DDCNFTManager extends BaseManager<'nft'> {
     }
   }
 
+  /**
+   * Mint many NFT tokens with bounded concurrency
+   * All items are validated before anything is sent; a failed mint is reported in its
+   * item result and does not abort the rest of the batch (unless `stopOnError` is set)
+   *
+   * @param items - Tokens to mint, each with its own keyHash
+   * @param options - Concurrency, early stop and transaction settings applied to every mint
+   * @returns Per-item results in input order with success/failure counts
+   * @throws SDKError if any item is invalid or a tokenId appears twice (nothing is sent)
+   *
+   * @example
+   * ```typescript
+   * const batch = await ddcnftManager.mintBatch(
+   *   keys.map((key, i) => ({ tokenId: BigInt(i + 1), keyHash: getKeyHash(key) })),
+   *   { concurrency: 5 }
+   * );
+   * console.log(`${batch.succeeded} minted, ${batch.failed} failed`);
+   * ```
+   */
+  @ensureContractDeployed
+  async mintBatch(
+    items: MintBatchItem[],
+    options?: MintBatchOptions
+  ): Promise<BatchResult<MintBatchItem, MintResult>> {
+    await this.ensureNetwork();
+    this.validateMintBatch(items);
+
+    const { concurrency = 5, stopOnError = false, onProgress, ...transaction } = options || {};
+    this.resolveTransactionSettings(transaction);
+
+    return runBatch(items, (item) => this.mint(item.tokenId, item.keyHash, transaction), {
+      concurrency,
+      stopOnError,
+      onSettled: onProgress,
+    });
+  }
+
   /**
    * Destroy (burn) NFT token
    * @param tokenId - Token ID to destroy
-   * @param key - Private key to destroy
-   * @returns Transaction hash
+   * @param key - Private key to destroy, or a vault reference (`{ vault }`)
+   * @param options - Optional transaction lifecycle hooks (`strict` fails on event mismatch,
+   *   `verifyKey: false` skips the pre-flight key check)
+   * @returns Destroy result with token information and transaction details
+   * @throws SDKError (KEY_MISMATCH) if the key is not the current holder's key (nothing is sent)
    */
+  @notifyTransactionError
   @ensureContractDeployed
-  async destroy(tokenId: bigint, key: string): Promise<string> {
+  async destroy(
+    tokenId: bigint,
+    key: KeySource,
+    options?: TransactionOptions
+  ): Promise<DestroyResult> {
     await this.ensureNetwork();
     const contract = await this.getContract();
-
-    // Validate parameters
-    if (!tokenId) {
-      throw new SDKError('tokenId is required for destroying', 'MISSING_TOKEN_ID', { tokenId });
-    }
-
-    if (!key || !key.trim()) {
-      throw new SDKError('Destroy key cannot be empty', 'INVALID_PARAMETER', { key });
-    }
+    const resolvedKey = await this.resolveKey(key, tokenId);
+    this.validateDestroyParams(tokenId, resolvedKey);
+    const plainKey = await this.matchHolderKey(tokenId, resolvedKey, options);
+    const strict = this.isStrict(options);
 
     try {
       // this.logger.info('Sending destroy transaction...');
-      const tx: ContractTransactionResponse = await contract.destroy(tokenId, key);
-
-      // this.logger.info(`Destroy transaction sent: ${tx.hash}. Waiting for confirmation...`);
-      const receipt = await tx.wait();
-
-      if (!receipt) {
-        throw new SDKError('Transaction receipt not available', 'TX_RECEIPT_ERROR');
-      }
+      const receipt = await this.sendTransaction(contract, 'destroy', [tokenId, plainKey], options);
+      const result: DestroyResult = {
+        tokenId,
+        from: getKeyHash(plainKey),
+        transactionHash: receipt.hash,
+        blockNumber: receipt.blockNumber,
+        ...this.getReceiptCosts(receipt),
+        verified: true,
+      };
 
       // Verify destroy via Transfer event (toHash should be zero)
       try {
-        this.parseTransferEventForDestroy(receipt, tokenId);
+        const burnEvent = await this.parseTransferEventForDestroy(receipt, tokenId, strict);
+        result.from = burnEvent.fromHash;
       } catch (eventError) {
+        if (strict) throw eventError;
         // Transfer event verification failed - log warning but continue
         this.logger.warn('Destroy completed but Transfer event verification failed:', eventError);
+        result.verified = false;
       }
 
       // Verify destroy via TokenDestroyed event
       try {
-        this.parseTokenDestroyedEvent(receipt, tokenId);
+        await this.parseTokenDestroyedEvent(receipt, tokenId);
       } catch (eventError) {
+        if (strict) throw eventError;
         // TokenDestroyed event verification failed - log warning but don't fail
         this.logger.warn(
           'Destroy completed but TokenDestroyed event verification failed:',
           eventError
         );
+        result.verified = false;
       }
 
       // this.logger.info(`NFT destroyed successfully. Transaction: ${receipt.hash}`);
-      return receipt.hash;
+      return result;
     } catch (error: any) {
       if (error instanceof SDKError) throw error;
 
       this.logger.error('Failed to destroy NFT:', error);
 
+      this.throwIfRevert(error, { tokenId });
+
       if (error.code === 'CALL_EXCEPTION') {
         throw new SDKError(
           'Contract call failed. The token may not exist, the key may be invalid, you may not have destroy permission, or the contract may be paused.',
@@ -1048,55 +1588,69 @@ export class DDCNFTManager extends BaseManager<'nft'> {
 
   /**
    * Transfer NFT token
+   * The key policy (`keyPolicy` in init()) cannot be applied to a precomputed recipient hash; use
+   * transferToKey() to have the SDK generate the new key or check a supplied one
    * @param toHash - Recipient private key hash (bytes32)
    * @param tokenId - Token ID
-   * @param key - Transfer key
-   * @returns Transaction hash
+   * @param key - Transfer key, or a vault reference (`{ vault }`)
+   * @param options - Optional transaction lifecycle hooks (`strict` fails on event mismatch,
+   *   `verifyKey: false` skips the pre-flight key check)
+   * @returns Transfer result with token information and transaction details
+   * @throws SDKError (KEY_MISMATCH) if the key is not the current holder's key (nothing is sent)
    */
+  @notifyTransactionError
   @ensureContractDeployed
-  async transfer(toHash: string, tokenId: bigint, key: string): Promise<string> {
+  async transfer(
+    toHash: string,
+    tokenId: bigint,
+    key: KeySource,
+    options?: TransactionOptions
+  ): Promise<TransferResult> {
     await this.ensureNetwork();
     const contract = await this.getContract();
-
-    // Validate toHash is a valid bytes32 value
-    if (!toHash || toHash.length !== 66 || !toHash.startsWith('0x')) {
-      throw new SDKError(
-        'Invalid toHash format. Expected bytes32 (0x + 64 hex characters)',
-        'INVALID_PARAMETER',
-        { toHash }
-      );
-    }
-
-    if (!key || !key.trim()) {
-      throw new SDKError('Transfer key cannot be empty', 'INVALID_PARAMETER', { key });
-    }
+    const resolvedKey = await this.resolveKey(key, tokenId);
+    this.validateTransferParams(toHash, resolvedKey);
+    const plainKey = await this.matchHolderKey(tokenId, resolvedKey, options);
 
     try {
       // this.logger.info('Sending transfer transaction...');
-      const tx: ContractTransactionResponse = await contract.transfer(toHash, tokenId, key);
-
-      // this.logger.info(`Transfer transaction sent: ${tx.hash}. Waiting for confirmation...`);
-      const receipt = await tx.wait();
-
-      if (!receipt) {
-        throw new SDKError('Transaction receipt not available', 'TX_RECEIPT_ERROR');
-      }
+      const receipt = await this.sendTransaction(
+        contract,
+        'transfer',
+        [toHash, tokenId, plainKey],
+        options
+      );
+      const result: TransferResult = {
+        tokenId,
+        from: getKeyHash(plainKey),
+        to: toHash,
+        transactionHash: receipt.hash,
+        blockNumber: receipt.blockNumber,
+        ...this.getReceiptCosts(receipt),
+        verified: false,
+      };
 
       // Verify transfer via event
       try {
-        this.parseTransferEventForTransfer(receipt, tokenId, toHash);
+        const transferEvent = await this.parseTransferEventForTransfer(receipt, tokenId, toHash);
+        result.from = transferEvent.fromHash;
+        result.to = transferEvent.toHash;
+        result.verified = true;
       } catch (eventError) {
+        if (this.isStrict(options)) throw eventError;
         // Transfer succeeded but event verification failed - log warning but don't fail
         this.logger.warn('Transfer completed but event verification failed:', eventError);
       }
 
       // this.logger.info(`NFT transferred successfully. Transaction: ${receipt.hash}`);
-      return receipt.hash;
+      return result;
     } catch (error: any) {
       if (error instanceof SDKError) throw error;
 
       this.logger.error('Failed to transfer NFT:', error);
 
+      this.throwIfRevert(error, { toHash, tokenId });
+
       if (error.code === 'CALL_EXCEPTION') {
         throw new SDKError(
           'Contract call failed. You may not own this token, the key may be invalid, or the contract may be paused.',
@@ -1124,4 +1678,220 @@ export class DDCNFTManager extends BaseManager<'nft'> {
       });
     }
   }
+
+  /**
+   * Mint NFT token to a holder key instead of a precomputed key hash
+   * Without a key a new one is generated; a supplied key must satisfy the manager's key policy
+   * (see `keyPolicy` in init()). Keys in generateKey() formats are canonicalized first, so
+   * differently typed forms of the same key always produce the same on-chain hash
+   *
+   * @param tokenId - Token ID to mint (must be non-zero)
+   * @param key - Holder key (optional, generated when omitted), or `{ wallet: true }` to derive it
+   *   from a wallet signature
+   * @param options - Optional transaction lifecycle hooks (`strict` fails on event mismatch)
+   * @returns Mint result with the canonical key to hand to the holder
+   * @throws SDKError (WEAK_KEY) if the supplied key is rejected by the policy (nothing is sent)
+   * @throws SDKError (INVALID_KEY_CHECKSUM) if the key looks generated but contains a typo
+   *
+   * @example
+   * ```typescript
+   * const { key } = await ddcnftManager.mintWithKey(1n);
+   * showToHolderOnce(key);
+   * ```
+   */
+  @notifyTransactionError
+  async mintWithKey(
+    tokenId: bigint,
+    key?: string | WalletKeyReference,
+    options?: TransactionOptions
+  ): Promise<KeyedMintResult> {
+    // onError is called once, by this method
+    const { onError: _, ...mintOptions } = options || {};
+    const holderKey = await this.resolveHolderKey(key, tokenId);
+    const result = await this.mint(tokenId, getKeyHash(holderKey), mintOptions);
+    return { ...result, key: holderKey };
+  }
+
+  /**
+   * Transfer NFT token to a new holder key instead of a precomputed key hash
+   * The new key is generated or checked against the key policy like in mintWithKey();
+   * the current key is matched against the holder hash like in transfer()
+   *
+   * @param tokenId - Token ID
+   * @param key - Current holder key, a vault reference (`{ vault }`) or `{ wallet: true }`
+   * @param newKey - New holder key (optional, generated when omitted), or `{ wallet: true, index }`
+   *   to move the token to a key derived from this wallet
+   * @param options - Optional transaction lifecycle hooks (`strict` fails on event mismatch)
+   * @returns Transfer result with the canonical key of the new holder
+   * @throws SDKError (WEAK_KEY) if the new key is rejected by the policy (nothing is sent)
+   */
+  @notifyTransactionError
+  async transferToKey(
+    tokenId: bigint,
+    key: KeySource,
+    newKey?: string | WalletKeyReference,
+    options?: TransactionOptions
+  ): Promise<KeyedTransferResult> {
+    // onError is called once, by this method
+    const { onError: _, ...transferOptions } = options || {};
+    const holderKey = await this.resolveHolderKey(newKey, tokenId);
+    const result = await this.transfer(getKeyHash(holderKey), tokenId, key, transferOptions);
+    return { ...result, key: holderKey };
+  }
+
+  /**
+   * Derive the key of a token from a signature by the current wallet
+   * Any device holding the wallet derives the same key; see WalletKeyReference for the
+   * security trade-offs before relying on it
+   *
+   * @param tokenId - Token ID
+   * @param options - Contract (default: current), key index (default: 0) and determinism check
+   * @returns Canonical key string
+   * @throws SDKError (NON_DETERMINISTIC_SIGNATURE) if the wallet cannot derive stable keys
+   *
+   * @example
+   * ```typescript
+   * // On any device: recompute the hash to receive a token on a wallet-derived key
+   * const keyHash = await ddcnftManager.getWalletKeyHash(1n);
+   * ```
+   */
+  @ensureContractDeployed
+  async deriveWalletKey(
+    tokenId: bigint,
+    options: Omit<WalletKeyReference, 'wallet' | 'tokenId'> = {}
+  ): Promise<string> {
+    const chainId = this.networkConfig
+      ? BigInt(this.networkConfig.chain_id)
+      : (await this.provider!.getNetwork()).chainId;
+
+    return deriveWalletKey(
+      await this.getSigner(),
+      {
+        chainId,
+        contractAddress: options.contractAddress ?? this.getContractAddress()!,
+        tokenId,
+        index: options.index,
+      },
+      { verifyDeterminism: options.verifyDeterminism }
+    );
+  }
+
+  /**
+   * Key hash of a wallet-derived key, e.g. to share as the `toHash` of a transfer
+   *
+   * @param tokenId - Token ID
+   * @param options - Contract (default: current), key index (default: 0) and determinism check
+   * @returns Key hash (bytes32)
+   */
+  async getWalletKeyHash(
+    tokenId: bigint,
+    options: Omit<WalletKeyReference, 'wallet' | 'tokenId'> = {}
+  ): Promise<string> {
+    return getKeyHash(await this.deriveWalletKey(tokenId, options));
+  }
+
+  /**
+   * Pick the form of a key to send and compare it with the token's current holder hash (ownerOf)
+   * before it is broadcast. A wrong key would not only revert and burn gas: it would publish the
+   * key in calldata or to the RPC node, and a wrong key is often the real key of another token.
+   * Keys in generateKey() formats are tried in their canonical form first, as mintWithKey() and
+   * transferToKey() hash that form; the key as given is the fallback
+   * @returns The key to send
+   * @private
+   */
+  private async matchHolderKey(
+    tokenId: bigint,
+    key: string,
+    options?: TransactionOptions
+  ): Promise<string> {
+    let canonical = key;
+    try {
+      canonical = parseKey(key).key;
+    } catch {
+      // Not a generated key (or a typo in one): send it as given
+    }
+    if (!(options?.verifyKey ?? this.transactionConfig.verifyKey ?? true)) return canonical;
+
+    const contract = await this.getContract();
+    let holderHash: string;
+    try {
+      holderHash = (await contract.ownerOf(tokenId)).toLowerCase();
+    } catch (error: any) {
+      // Decoded reverts carry TOKEN_NOT_FOUND / TOKEN_DESTROYED
+      this.throwIfRevert(error, { tokenId });
+      throw new SDKError(
+        `Failed to read the holder of token ${tokenId}: ${error.message || error}`,
+        'GET_OWNER_OF_ERROR',
+        { tokenId, error: error.message || error }
+      );
+    }
+
+    if (holderHash === this.BYTES32_ZERO) {
+      // ownerOf does not say why there is no holder; any Transfer means the token was destroyed
+      const transfers = await this.fetchEvents('Transfer', [null, null, tokenId]);
+      if (transfers.length === 0) {
+        throw new SDKError(`Token ${tokenId} has not been minted`, 'TOKEN_NOT_FOUND', {
+          tokenId,
+        });
+      }
+      throw new SDKError(`Token ${tokenId} has been destroyed`, 'TOKEN_DESTROYED', {
+        tokenId,
+        transactionHash: transfers[transfers.length - 1].transactionHash,
+      });
+    }
+
+    const match = [canonical, key].find((candidate) => getKeyHash(candidate) === holderHash);
+    if (match === undefined) {
+      const keyHash = getKeyHash(canonical);
+      throw new SDKError(
+        `Key does not match the current holder of token ${tokenId}; the transaction was not sent`,
+        'KEY_MISMATCH',
+        { tokenId, keyHash, holderHash }
+      );
+    }
+    return match;
+  }
+
+  /**
+   * Read the plaintext key from a vault or wallet reference (plain keys are returned as-is)
+   * @private
+   */
+  private async resolveKey(key: KeySource, tokenId: bigint): Promise<string> {
+    if (typeof key === 'string' || !key) return key;
+    if ('wallet' in key) {
+      const { contractAddress, index, verifyDeterminism } = key;
+      return this.deriveWalletKey(key.tokenId ?? tokenId, {
+        contractAddress,
+        index,
+        verifyDeterminism,
+      });
+    }
+
+    return key.vault.getKey(
+      key.contractAddress ?? this.getContractAddress()!,
+      key.tokenId ?? tokenId
+    );
+  }
+
+  /**
+   * Generate or derive a key, or canonicalize a supplied one and enforce the key policy
+   * @private
+   */
+  private async resolveHolderKey(
+    key: string | WalletKeyReference | undefined,
+    tokenId: bigint
+  ): Promise<string> {
+    if (key === undefined) return generateKey();
+    if (typeof key !== 'string') return this.resolveKey(key, tokenId);
+
+    let canonical = key;
+    try {
+      canonical = parseKey(key).key;
+    } catch (error: any) {
+      // A recognized encoding with a bad checksum is a typo, not a custom key
+      if (error?.code === 'INVALID_KEY_CHECKSUM') throw error;
+    }
+    assertKeyPolicy(canonical, this.keyPolicy);
+    return canonical;
+  }
 }
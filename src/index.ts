@@ -6,17 +6,92 @@
 // Export core managers
 export { DDCNFTManager } from './ddcnft';
 export { MembershipManager } from './membership';
+export { ContractIndexer, ConfirmedEventStream } from './indexer';
+export type { EventStreamOptions } from './indexer';
+export { MemoryStorageAdapter, JsonFileStorageAdapter, IndexedDBStorageAdapter } from './storage';
+export { KeyVault } from './vault';
 
 // Export types
 export type {
   MintResult,
   DestroyResult,
+  TransferResult,
+  KeyedMintResult,
+  KeyedTransferResult,
+  KeyFormat,
+  GenerateKeyOptions,
+  ParsedKey,
+  KeyPolicy,
+  KeyStrength,
+  KeyVaultOptions,
+  KeyVaultReader,
+  VaultKeyReference,
+  KeySource,
+  WalletKeyReference,
+  VaultKdfParams,
+  VaultCiphertext,
+  VaultEntry,
+  VaultBackup,
+  VaultImportResult,
+  BatchItemResult,
+  BatchResult,
+  MintBatchItem,
+  MintBatchOptions,
+  ContractEventMeta,
+  TransferEvent,
+  TokenDestroyedEvent,
+  PausedEvent,
+  SnapshotCreatedEvent,
+  OwnershipTransferredEvent,
+  Unsubscribe,
+  EventQueryOptions,
+  TimestampedEvent,
+  PauseHistoryEvent,
+  ProvenanceStep,
+  TokenProvenance,
+  ListTokensOptions,
+  TokenListEntry,
+  TokenPage,
+  ReplacementOptions,
+  ReplacementResult,
+  RosterRow,
+  RosterEntry,
+  RosterIssue,
+  RosterImportOptions,
+  RosterImportReport,
+  RosterRowReport,
+  MembershipDiff,
+  SnapshotDiff,
+  LiveSnapshotDiff,
+  LiveMembers,
+  MerkleTreeContext,
+  MerkleProof,
+  MembershipMerkleTreeJSON,
+  MemberIdentityType,
+  MemberHashOptions,
+  FactoryContractsOptions,
+  FactoryContractInfo,
+  FactoryContractPage,
+  RecoverContractsOptions,
+  RecoveredContract,
+  RecoveryResult,
+  StorageAdapter,
+  IndexedToken,
+  ContractIndexerOptions,
+  IndexerCheckpoint,
+  IndexerSyncResult,
   DeploymentResult,
   DDCChainConfig,
   ManagerConfig,
   ManagerParams,
   JsonRpcProviderDescriptor,
   SignerConfig,
+  TransactionOptions,
+  TransactionConfig,
+  GasEstimate,
+  DDCNFTGasEstimator,
+  MembershipGasEstimator,
+  DecodedRevert,
 } from './types';
 
 // Re-export ProviderDescriptor as alias for JsonRpcProviderDescriptor for convenience
@@ -36,10 +111,33 @@ export {
   getAddressFromPrivateKey,
   resolveWalletAddress,
   getKeyHash,
+  getAddressHash,
+  getMemberHash,
+  verifyMemberHash,
+  normalizeMemberIdentity,
   createJsonRpcProvider,
   resolveProvider,
+  extractRevertData,
+  decodeRevertData,
+  getRevertErrorCode,
+  ManagedNonceSigner,
+  parseRoster,
+  formatRosterReport,
+  decodeContractLog,
+  getLogsChunked,
+  diffMemberHashes,
+  MembershipMerkleTree,
+  verifyMerkleProof,
+  generateKey,
+  parseKey,
+  estimateKeyStrength,
+  assertKeyPolicy,
+  getWalletKeyTypedData,
+  deriveWalletKey,
 } from './utils';
 
+export type { ContractEventName, ContractEventFields, DecodedContractEvent } from './utils';
+
 // Export utility types (re-export ethers types for convenience)
 export type { JsonRpcApiProviderOptions } from 'ethers';
 
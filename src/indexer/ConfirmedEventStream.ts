@@ -0,0 +1,369 @@
+import { Interface, InterfaceAbi, Log, Provider } from 'ethers';
+import { SDKError } from '../types';
+import { Logger, decodeContractLog, getLogsChunked, validateAddress } from '../utils';
+import type { ContractEventName, DecodedContractEvent } from '../utils';
+
+const SUPPORTED_EVENTS: ContractEventName[] = [
+  'Transfer',
+  'TokenDestroyed',
+  'Paused',
+  'Unpaused',
+  'SnapshotCreated',
+  'OwnershipTransferred',
+];
+
+/**
+ * Settings for ConfirmedEventStream
+ */
+export interface EventStreamOptions {
+  /**
+   * Events to follow (default: every supported event the contract emits)
+   */
+  events?: ContractEventName[];
+
+  /**
+   * Depth an event must reach before it is emitted; 1 means "included in the head block" (default: 12)
+   */
+  confirmations?: number;
+
+  /**
+   * First block to stream (default: only events that are not yet confirmed when the stream starts)
+   */
+  fromBlock?: number;
+
+  /**
+   * Delay between polls in milliseconds (default: 4000)
+   */
+  pollingInterval?: number;
+
+  /**
+   * Initial eth_getLogs window, halved automatically on RPC rejection
+   */
+  maxBlockRange?: number;
+
+  /**
+   * How many blocks below the head emitted events are remembered, i.e. the deepest reorg
+   * that produces `onRemoved` notifications (default: 128)
+   */
+  historyDepth?: number;
+
+  /**
+   * Called once per event when it reaches `confirmations` depth, in chain order
+   */
+  onEvent: (event: DecodedContractEvent) => void | Promise<void>;
+
+  /**
+   * Called when an event that was already emitted is rolled back by a reorg
+   */
+  onRemoved?: (event: DecodedContractEvent) => void | Promise<void>;
+
+  /**
+   * Called when a poll fails (the stream keeps polling)
+   */
+  onError?: (error: SDKError) => void;
+}
+
+/**
+ * Contract event stream that only emits events once they are `confirmations` blocks deep
+ *
+ * Block hashes of every block with a matching log (and of each polled head) are tracked. When a
+ * tracked hash changes, the stream rewinds to the last block that is still canonical, rescans,
+ * drops unconfirmed events from orphaned blocks and calls `onRemoved` for emitted events that
+ * no longer exist. Reorgs deeper than `historyDepth` cannot be detected.
+ *
+ * @example
+ * ```typescript
+ * const stream = await membershipManager.createEventStream({
+ *   events: ['Transfer'],
+ *   confirmations: 12,
+ *   onEvent: ({ name, event }) => queuePayout(event),
+ *   onRemoved: ({ event }) => cancelPayout(event.transactionHash, event.logIndex),
+ * });
+ * stream.start();
+ * ```
+ */
+export class ConfirmedEventStream {
+  readonly contractAddress: string;
+
+  private readonly provider: Provider;
+  private readonly contractInterface: Interface;
+  private readonly topics: string[];
+  private readonly options: EventStreamOptions;
+  private readonly logger: Logger;
+  private readonly confirmations: number;
+  private readonly historyDepth: number;
+
+  /** Last scanned block */
+  private cursor?: number;
+  /** Block number -> hash of tracked blocks */
+  private blockHashes = new Map<number, string>();
+  /** Scanned events waiting for confirmations */
+  private pending = new Map<string, DecodedContractEvent>();
+  /** Emitted events still inside historyDepth */
+  private emitted = new Map<string, DecodedContractEvent>();
+  private polling?: Promise<void>;
+  private timer?: ReturnType<typeof setTimeout>;
+  private running = false;
+
+  constructor(
+    params: {
+      provider: Provider;
+      contractAddress: string;
+      abi: InterfaceAbi | Interface;
+      debug?: boolean;
+    },
+    options: EventStreamOptions
+  ) {
+    validateAddress(params.contractAddress, 'Contract address');
+    if (typeof options?.onEvent !== 'function') {
+      throw new SDKError('onEvent callback is required', 'INVALID_PARAMETER');
+    }
+
+    const { confirmations = 12, historyDepth = 128, fromBlock } = options;
+    if (!Number.isInteger(confirmations) || confirmations < 1) {
+      throw new SDKError('confirmations must be a positive integer', 'INVALID_PARAMETER', {
+        confirmations,
+      });
+    }
+    if (!Number.isInteger(historyDepth) || historyDepth < confirmations) {
+      throw new SDKError(
+        'historyDepth must be an integer of at least confirmations',
+        'INVALID_PARAMETER',
+        { historyDepth, confirmations }
+      );
+    }
+    if (fromBlock !== undefined && (!Number.isInteger(fromBlock) || fromBlock < 0)) {
+      throw new SDKError('fromBlock must be a non-negative integer', 'INVALID_PARAMETER', {
+        fromBlock,
+      });
+    }
+
+    this.contractInterface =
+      params.abi instanceof Interface ? params.abi : new Interface(params.abi);
+    const names =
+      options.events ||
+      SUPPORTED_EVENTS.filter((name) => this.contractInterface.getEvent(name) !== null);
+    this.topics = names.map((name) => {
+      const fragment = SUPPORTED_EVENTS.includes(name) && this.contractInterface.getEvent(name);
+      if (!fragment) {
+        throw new SDKError(`Event ${name} is not emitted by this contract`, 'INVALID_PARAMETER', {
+          event: name,
+        });
+      }
+      return fragment.topicHash;
+    });
+
+    this.provider = params.provider;
+    this.contractAddress = params.contractAddress;
+    this.options = options;
+    this.logger = new Logger(params.debug || false);
+    this.confirmations = confirmations;
+    this.historyDepth = historyDepth;
+    this.cursor = fromBlock !== undefined ? fromBlock - 1 : undefined;
+  }
+
+  /**
+   * Start polling (the first poll runs immediately)
+   */
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+
+    const tick = async () => {
+      try {
+        await this.poll();
+      } catch (error: any) {
+        this.reportError(error);
+      }
+      if (this.running) {
+        this.timer = setTimeout(tick, this.options.pollingInterval ?? 4000);
+      }
+    };
+    tick();
+  }
+
+  /**
+   * Stop polling; start() resumes from where the stream stopped
+   */
+  stop(): void {
+    this.running = false;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = undefined;
+  }
+
+  /**
+   * Run one poll: detect reorgs, scan new blocks and emit newly confirmed events
+   * start() calls this on every tick; concurrent calls share the same run
+   */
+  async poll(): Promise<void> {
+    this.polling ??= this.runPoll().finally(() => {
+      this.polling = undefined;
+    });
+    return this.polling;
+  }
+
+  private async runPoll(): Promise<void> {
+    const head = await this.provider.getBlockNumber();
+    this.cursor ??= Math.max(head - this.confirmations, -1);
+
+    const rewindTo = await this.findReorg();
+    if (rewindTo !== null) {
+      await this.rewind(rewindTo, head);
+      this.cursor = head;
+    } else if (this.cursor < head) {
+      for (const event of await this.scan(this.cursor + 1, head)) {
+        this.pending.set(eventKey(event), event);
+      }
+      this.cursor = head;
+    }
+    await this.trackBlock(head);
+
+    // An event in block b is (head - b + 1) blocks deep
+    const confirmed = [...this.pending.values()]
+      .filter(({ event }) => event.blockNumber <= head - this.confirmations + 1)
+      .sort(compareEvents);
+    for (const decoded of confirmed) {
+      const key = eventKey(decoded);
+      this.pending.delete(key);
+      this.emitted.set(key, decoded);
+      await this.notify(this.options.onEvent, decoded);
+    }
+
+    this.prune(head);
+  }
+
+  /**
+   * Check tracked block hashes from the top down
+   * @returns The last block that is still canonical (to rescan from), or null if nothing changed
+   */
+  private async findReorg(): Promise<number | null> {
+    const tracked = [...this.blockHashes.keys()].sort((a, b) => b - a);
+    for (let i = 0; i < tracked.length; i++) {
+      const block = await this.provider.getBlock(tracked[i]);
+      if (block?.hash === this.blockHashes.get(tracked[i])) {
+        return i === 0 ? null : tracked[i];
+      }
+    }
+    if (tracked.length === 0) return null;
+
+    const oldest = tracked[tracked.length - 1];
+    this.logger.warn(`Reorg deeper than the tracked history (block ${oldest}), rescanning from it`);
+    return oldest - 1;
+  }
+
+  /**
+   * Rescan everything after `lastCanonical` and reconcile pending and emitted events
+   */
+  private async rewind(lastCanonical: number, head: number): Promise<void> {
+    this.logger.warn(`Reorg detected after block ${lastCanonical}`, {
+      contractAddress: this.contractAddress,
+    });
+
+    for (const blockNumber of [...this.blockHashes.keys()]) {
+      if (blockNumber > lastCanonical) this.blockHashes.delete(blockNumber);
+    }
+    for (const [key, { event }] of this.pending) {
+      if (event.blockNumber > lastCanonical) this.pending.delete(key);
+    }
+
+    const rescanned = new Map<string, DecodedContractEvent>();
+    for (const event of await this.scan(lastCanonical + 1, head)) {
+      rescanned.set(eventKey(event), event);
+    }
+
+    const removed = [...this.emitted.entries()]
+      .filter(([key, { event }]) => event.blockNumber > lastCanonical && !rescanned.has(key))
+      .sort(([, a], [, b]) => compareEvents(b, a));
+    for (const [key, decoded] of removed) {
+      this.emitted.delete(key);
+      if (this.options.onRemoved) {
+        await this.notify(this.options.onRemoved, decoded);
+      }
+    }
+
+    for (const [key, event] of rescanned) {
+      if (!this.emitted.has(key)) this.pending.set(key, event);
+    }
+  }
+
+  private async scan(fromBlock: number, toBlock: number): Promise<DecodedContractEvent[]> {
+    const logs = await getLogsChunked(
+      this.provider,
+      { address: this.contractAddress, topics: [this.topics] },
+      fromBlock,
+      toBlock,
+      { maxBlockRange: this.options.maxBlockRange }
+    );
+
+    const events: DecodedContractEvent[] = [];
+    for (const log of logs.filter((log: Log) => !log.removed)) {
+      const decoded = decodeContractLog(this.contractInterface, log);
+      if (!decoded) continue;
+      this.blockHashes.set(log.blockNumber, log.blockHash);
+      events.push(decoded);
+    }
+    return events;
+  }
+
+  private async trackBlock(blockNumber: number): Promise<void> {
+    const block = await this.provider.getBlock(blockNumber);
+    if (block?.hash) this.blockHashes.set(blockNumber, block.hash);
+  }
+
+  /**
+   * Forget blocks and emitted events below historyDepth
+   */
+  private prune(head: number): void {
+    const floor = head - this.historyDepth;
+    for (const blockNumber of [...this.blockHashes.keys()]) {
+      if (blockNumber < floor) this.blockHashes.delete(blockNumber);
+    }
+    for (const [key, { event }] of this.emitted) {
+      if (event.blockNumber < floor) this.emitted.delete(key);
+    }
+  }
+
+  private async notify(
+    listener: (event: DecodedContractEvent) => void | Promise<void>,
+    decoded: DecodedContractEvent
+  ): Promise<void> {
+    try {
+      await listener(decoded);
+    } catch (error) {
+      this.logger.warn(`${decoded.name} stream listener threw:`, error);
+    }
+  }
+
+  private reportError(error: any): void {
+    const sdkError =
+      error instanceof SDKError
+        ? error
+        : new SDKError(
+            `Event stream poll failed: ${error?.message || error}`,
+            'EVENT_STREAM_ERROR',
+            {
+              error: error?.message || error,
+            }
+          );
+    if (this.options.onError) {
+      try {
+        this.options.onError(sdkError);
+      } catch (hookError) {
+        this.logger.warn('Event stream onError callback threw:', hookError);
+      }
+    } else {
+      this.logger.warn(sdkError.message);
+    }
+  }
+}
+
+/**
+ * Identity of a log: the same log in a different block is a different event
+ */
+function eventKey({ event }: DecodedContractEvent): string {
+  return `${event.blockHash}:${event.logIndex}`;
+}
+
+function compareEvents(a: DecodedContractEvent, b: DecodedContractEvent): number {
+  return a.event.blockNumber - b.event.blockNumber || a.event.logIndex - b.event.logIndex;
+}
@@ -0,0 +1,373 @@
+import { Contract, Log, Provider } from 'ethers';
+import type {
+  ContractIndexerOptions,
+  IndexedToken,
+  IndexerCheckpoint,
+  IndexerSyncResult,
+  StorageAdapter,
+} from '../types';
+import { SDKError } from '../types';
+import { DDCNFT_ABI, MEMBERSHIP_ABI } from '../abi';
+import { Logger, decodeContractLog, getLogsChunked, runBatch, validateAddress } from '../utils';
+import { MemoryStorageAdapter } from '../storage';
+
+const STORAGE_VERSION = 1;
+const BYTES32_ZERO = '0x' + '0'.repeat(64);
+
+/**
+ * Persisted index layout (one record per contract, so tokens and checkpoint are saved atomically)
+ */
+interface StoredIndex {
+  version: number;
+  contractType: 'nft' | 'membership';
+  contractAddress: string;
+  checkpoint: IndexerCheckpoint | null;
+  tokens: Record<string, Omit<IndexedToken, 'tokenId'>>;
+}
+
+/**
+ * Incremental indexer for a DDCNFT or Membership contract
+ *
+ * Follows the contract's Transfer / TokenDestroyed logs and maintains, per token, the current
+ * holder hash, destroyed flag and (DDCNFT) tokenURI. Progress is checkpointed to the storage
+ * adapter every `checkpointInterval` blocks, so an interrupted sync resumes where it stopped.
+ * If the checkpointed block is no longer on the chain (reorg), the index is rebuilt.
+ *
+ * Create one with `manager.createIndexer()` or directly with a provider and contract address.
+ *
+ * @example
+ * ```typescript
+ * const indexer = await ddcnftManager.createIndexer({
+ *   storage: new IndexedDBStorageAdapter(),
+ *   fromBlock: deploymentBlock,
+ *   confirmations: 3,
+ * });
+ * await indexer.sync();
+ * const tokens = await indexer.getTokens();
+ * indexer.start(15_000); // keep following new blocks
+ * ```
+ */
+export class ContractIndexer {
+  readonly contractAddress: string;
+  readonly contractType: 'nft' | 'membership';
+
+  private readonly provider: Provider;
+  private readonly contract: Contract;
+  private readonly storage: StorageAdapter;
+  private readonly options: ContractIndexerOptions;
+  private readonly logger: Logger;
+  private readonly chainId?: number;
+
+  private tokens = new Map<bigint, IndexedToken>();
+  private checkpoint: IndexerCheckpoint | null = null;
+  private storageKey?: string;
+  private loading?: Promise<void>;
+  private syncing?: Promise<IndexerSyncResult>;
+  private timer?: ReturnType<typeof setInterval>;
+
+  constructor(
+    params: {
+      provider: Provider;
+      contractAddress: string;
+      contractType: 'nft' | 'membership';
+      chainId?: number;
+      debug?: boolean;
+    },
+    options: ContractIndexerOptions = {}
+  ) {
+    validateAddress(params.contractAddress, 'Contract address');
+    for (const name of ['fromBlock', 'confirmations'] as const) {
+      const value = options[name];
+      if (value !== undefined && (!Number.isInteger(value) || value < 0)) {
+        throw new SDKError(`${name} must be a non-negative integer`, 'INVALID_PARAMETER', {
+          [name]: value,
+        });
+      }
+    }
+    for (const name of ['checkpointInterval', 'maxBlockRange'] as const) {
+      const value = options[name];
+      if (value !== undefined && (!Number.isInteger(value) || value < 1)) {
+        throw new SDKError(`${name} must be a positive integer`, 'INVALID_PARAMETER', {
+          [name]: value,
+        });
+      }
+    }
+
+    this.provider = params.provider;
+    this.contractAddress = params.contractAddress;
+    this.contractType = params.contractType;
+    this.chainId = params.chainId;
+    this.logger = new Logger(params.debug || false);
+    this.storage = options.storage || new MemoryStorageAdapter();
+    this.options = options;
+    this.contract = new Contract(
+      params.contractAddress,
+      params.contractType === 'nft' ? DDCNFT_ABI : MEMBERSHIP_ABI,
+      params.provider
+    );
+  }
+
+  /**
+   * Process new blocks up to the chain head (minus `confirmations`), checkpointing as it goes
+   * Concurrent calls share the same run
+   *
+   * @returns Processed block range and counts
+   */
+  async sync(): Promise<IndexerSyncResult> {
+    this.syncing ??= this.runSync().finally(() => {
+      this.syncing = undefined;
+    });
+    return this.syncing;
+  }
+
+  /**
+   * Keep syncing in the background (errors are logged and retried on the next tick)
+   * @param intervalMs - Delay between syncs (default: 15000)
+   */
+  start(intervalMs = 15_000): void {
+    if (this.timer) return;
+    const tick = () =>
+      this.sync().catch((error) => this.logger.warn('Indexer sync failed:', error));
+    tick();
+    this.timer = setInterval(tick, intervalMs);
+  }
+
+  /**
+   * Stop background syncing started with start()
+   */
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  /**
+   * Indexed state of a token, or undefined if the indexer has not seen it
+   */
+  async getToken(tokenId: bigint): Promise<IndexedToken | undefined> {
+    await this.load();
+    const token = this.tokens.get(tokenId);
+    return token && { ...token };
+  }
+
+  /**
+   * Indexed tokens sorted by tokenId
+   * @param options.includeDestroyed - Include destroyed tokens (default: false)
+   */
+  async getTokens(options: { includeDestroyed?: boolean } = {}): Promise<IndexedToken[]> {
+    await this.load();
+    return [...this.tokens.values()]
+      .filter((token) => options.includeDestroyed || !token.destroyed)
+      .sort((a, b) => (a.tokenId < b.tokenId ? -1 : a.tokenId > b.tokenId ? 1 : 0))
+      .map((token) => ({ ...token }));
+  }
+
+  /**
+   * Last processed block, or null before the first checkpoint
+   */
+  async getCheckpoint(): Promise<IndexerCheckpoint | null> {
+    await this.load();
+    return this.checkpoint && { ...this.checkpoint };
+  }
+
+  /**
+   * Re-read tokenURI for live tokens and persist the result (DDCNFT only)
+   * The contract emits no event for setTokenURI / clearTokenURI / setBaseURI, so URI changes
+   * are only picked up for tokens touched by a sync or through this method
+   *
+   * @param tokenIds - Tokens to refresh (default: every live token)
+   */
+  async refreshTokenURIs(tokenIds?: bigint[]): Promise<void> {
+    if (this.contractType !== 'nft') {
+      throw new SDKError('Token URIs are only indexed for DDCNFT contracts', 'NOT_SUPPORTED');
+    }
+    await this.load();
+    await this.readTokenURIs(tokenIds || [...this.tokens.keys()]);
+    await this.save();
+  }
+
+  /**
+   * Delete the stored index; the next sync starts again from `fromBlock`
+   */
+  async reset(): Promise<void> {
+    this.stop();
+    await this.load();
+    this.tokens.clear();
+    this.checkpoint = null;
+    await this.storage.delete(this.storageKey!);
+  }
+
+  private async runSync(): Promise<IndexerSyncResult> {
+    await this.load();
+
+    const { confirmations = 0, checkpointInterval = 10_000, onProgress } = this.options;
+    const reorged = await this.checkForReorg();
+    const head = (await this.provider.getBlockNumber()) - confirmations;
+    const fromBlock = this.checkpoint
+      ? this.checkpoint.blockNumber + 1
+      : this.options.fromBlock || 0;
+    const result: IndexerSyncResult = {
+      fromBlock,
+      toBlock: Math.max(head, fromBlock - 1),
+      eventsProcessed: 0,
+      tokensUpdated: 0,
+      reorged,
+    };
+    const updated = new Set<bigint>();
+
+    for (let start = fromBlock; start <= head; start += checkpointInterval) {
+      const end = Math.min(start + checkpointInterval - 1, head);
+      const logs = await getLogsChunked(
+        this.provider,
+        { address: this.contractAddress },
+        start,
+        end,
+        {
+          maxBlockRange: this.options.maxBlockRange,
+        }
+      );
+
+      const touched = this.applyLogs(logs);
+      touched.tokenIds.forEach((tokenId) => updated.add(tokenId));
+      result.eventsProcessed += touched.events;
+
+      if (this.contractType === 'nft' && this.options.trackTokenURIs !== false) {
+        await this.readTokenURIs([...touched.tokenIds]);
+      }
+
+      const block = await this.provider.getBlock(end);
+      if (!block?.hash) {
+        throw new SDKError(`Block ${end} not found`, 'BLOCK_NOT_FOUND', { blockNumber: end });
+      }
+      this.checkpoint = { blockNumber: end, blockHash: block.hash };
+      await this.save();
+
+      this.logger.info(`Indexed ${this.contractAddress} up to block ${end}`, {
+        events: touched.events,
+      });
+      if (onProgress) {
+        try {
+          onProgress({ ...this.checkpoint });
+        } catch (error) {
+          this.logger.warn('Indexer onProgress callback threw:', error);
+        }
+      }
+    }
+
+    result.tokensUpdated = updated.size;
+    return result;
+  }
+
+  /**
+   * Drop the index if the checkpointed block was reorged out
+   */
+  private async checkForReorg(): Promise<boolean> {
+    if (!this.checkpoint) return false;
+
+    const block = await this.provider.getBlock(this.checkpoint.blockNumber);
+    if (block?.hash === this.checkpoint.blockHash) return false;
+
+    this.logger.warn(
+      `Checkpoint block ${this.checkpoint.blockNumber} is no longer on the chain, rebuilding index`
+    );
+    this.tokens.clear();
+    this.checkpoint = null;
+    return true;
+  }
+
+  /**
+   * Apply Transfer / TokenDestroyed logs in chain order
+   */
+  private applyLogs(logs: Log[]): { events: number; tokenIds: Set<bigint> } {
+    const tokenIds = new Set<bigint>();
+    let events = 0;
+
+    const ordered = [...logs].sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+    for (const log of ordered) {
+      const decoded = decodeContractLog(this.contract.interface, log);
+      if (!decoded || (decoded.name !== 'Transfer' && decoded.name !== 'TokenDestroyed')) continue;
+
+      const tokenId = decoded.event.tokenId as bigint;
+      const token: IndexedToken = this.tokens.get(tokenId) || {
+        tokenId,
+        holderHash: null,
+        destroyed: false,
+        updatedBlock: log.blockNumber,
+      };
+
+      if (decoded.name === 'Transfer') {
+        const from = String(decoded.event.from).toLowerCase();
+        const to = String(decoded.event.to).toLowerCase();
+        if (from === BYTES32_ZERO) {
+          token.mintedBlock = log.blockNumber;
+          token.mintTransactionHash = log.transactionHash;
+          token.destroyed = false;
+        }
+        token.holderHash = to === BYTES32_ZERO ? null : to;
+        if (to === BYTES32_ZERO) token.destroyed = true;
+      } else {
+        token.holderHash = null;
+        token.destroyed = true;
+      }
+
+      token.updatedBlock = log.blockNumber;
+      this.tokens.set(tokenId, token);
+      tokenIds.add(tokenId);
+      events++;
+    }
+
+    return { events, tokenIds };
+  }
+
+  private async readTokenURIs(tokenIds: bigint[]): Promise<void> {
+    const live = tokenIds.filter((tokenId) => !this.tokens.get(tokenId)?.destroyed);
+    const batch = await runBatch(live, (tokenId) => this.contract.tokenURI(tokenId), {
+      concurrency: 5,
+    });
+
+    for (const { item, status, result, error } of batch.results) {
+      if (status === 'fulfilled') {
+        this.tokens.get(item)!.tokenURI = result;
+      } else {
+        this.logger.warn(`Failed to read tokenURI of token ${item}:`, error?.message);
+      }
+    }
+  }
+
+  private async load(): Promise<void> {
+    this.loading ??= (async () => {
+      const chainId = this.chainId ?? Number((await this.provider.getNetwork()).chainId);
+      this.storageKey = `ddc-indexer:${chainId}:${this.contractAddress.toLowerCase()}`;
+
+      const stored = await this.storage.get<StoredIndex>(this.storageKey);
+      if (!stored) return;
+      if (stored.version !== STORAGE_VERSION || stored.contractType !== this.contractType) {
+        this.logger.warn(`Ignoring incompatible stored index for ${this.contractAddress}`);
+        return;
+      }
+
+      this.checkpoint = stored.checkpoint;
+      for (const [tokenId, token] of Object.entries(stored.tokens)) {
+        this.tokens.set(BigInt(tokenId), { tokenId: BigInt(tokenId), ...token });
+      }
+    })().catch((error) => {
+      this.loading = undefined;
+      throw error;
+    });
+    return this.loading;
+  }
+
+  private async save(): Promise<void> {
+    const tokens: StoredIndex['tokens'] = {};
+    for (const { tokenId, ...token } of this.tokens.values()) {
+      tokens[tokenId.toString()] = token;
+    }
+
+    await this.storage.set<StoredIndex>(this.storageKey!, {
+      version: STORAGE_VERSION,
+      contractType: this.contractType,
+      contractAddress: this.contractAddress,
+      checkpoint: this.checkpoint,
+      tokens,
+    });
+  }
+}
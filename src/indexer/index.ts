@@ -0,0 +1,3 @@
+export { ContractIndexer } from './ContractIndexer';
+export { ConfirmedEventStream } from './ConfirmedEventStream';
+export type { EventStreamOptions } from './ConfirmedEventStream';
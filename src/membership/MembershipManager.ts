@@ -1,29 +1,50 @@
-import {
-  Contract,
-  ContractTransactionResponse,
-  Interface,
-  BrowserProvider,
-  JsonRpcProvider,
-} from 'ethers';
+import { Contract, Interface, BrowserProvider, JsonRpcProvider } from 'ethers';
 import type {
   DeploymentResult,
   MintResult,
   DestroyResult,
   ManagerParams,
   ManagerConfig,
+  TransactionOptions,
+  GasEstimate,
+  MembershipGasEstimator,
+  RosterRow,
+  RosterEntry,
+  RosterImportOptions,
+  RosterImportReport,
+  RosterRowReport,
+  BatchItemResult,
+  TransferEvent,
+  SnapshotCreatedEvent,
+  Unsubscribe,
+  EventQueryOptions,
+  TimestampedEvent,
+  SnapshotDiff,
+  LiveSnapshotDiff,
+  LiveMembers,
+  MemberHashOptions,
 } from '../types';
 import { SDKError } from '../types';
 import {
   createContract,
   validateAddress,
   resolveProvider,
-  getSigner,
   resolveWalletAddress,
+  parseRoster,
+  runBatch,
+  diffMemberHashes,
+  MembershipMerkleTree,
+  getMemberHash,
 } from '../utils';
 import { MEMBERSHIP_ABI, MEMBERSHIP_FACTORY_ABI } from '../abi';
 import { getDDCConfig } from '../service/api';
 import MembershipFactoryJson from '../abi/MembershipFactory.json';
-import { BaseManager, ensureContractDeployed, ensureFactoryDeployed } from '../base';
+import {
+  BaseManager,
+  ensureContractDeployed,
+  ensureFactoryDeployed,
+  notifyTransactionError,
+} from '../base';
 
 /**
  * Membership Management API
@@ -37,6 +58,9 @@ export class MembershipManager extends BaseManager<'membership'> {
 
   private static instance: MembershipManager | null = null;
 
+  /** Default identity type and salt of the identity helpers (mintMember, destroyMember, ...) */
+  private readonly memberHashOptions: MemberHashOptions;
+
   protected getManagerName(): string {
     return 'MembershipManager';
   }
@@ -52,6 +76,7 @@ export class MembershipManager extends BaseManager<'membership'> {
 
   constructor(config: ManagerConfig) {
     super(config);
+    this.memberHashOptions = config?.memberHash || {};
   }
 
   /**
@@ -308,6 +333,185 @@ export class MembershipManager extends BaseManager<'membership'> {
     );
   }
 
+  /**
+   * Convert a batch item result into a roster report row
+   * @private
+   */
+  private toRosterRowReport(result: BatchItemResult<RosterEntry, MintResult>): RosterRowReport {
+    const { item, status } = result;
+    return {
+      line: item.line,
+      tokenId: item.tokenId.toString(),
+      address: item.address,
+      addressHash: item.addressHash,
+      status: status === 'fulfilled' ? 'minted' : status === 'rejected' ? 'failed' : 'skipped',
+      transactionHash: result.result?.transactionHash,
+      blockNumber: result.result?.blockNumber,
+      errorCode: result.error?.code,
+      errorMessage: result.error?.message,
+    };
+  }
+
+  /**
+   * Validate mint parameters
+   * @private
+   * @throws SDKError if addressHash is not a non-zero bytes32 value
+   */
+  private validateMintParams(addressHash: string): void {
+    // Validate keyHash is provided
+    if (!addressHash || !addressHash.trim()) {
+      throw new SDKError('keyHash is required for minting', 'MISSING_KEY_HASH', { addressHash });
+    }
+
+    // Validate keyHash format
+    if (addressHash.length !== 66 || !addressHash.startsWith('0x')) {
+      throw new SDKError(
+        'Invalid keyHash format. Expected bytes32 (0x + 64 hex characters)',
+        'INVALID_PARAMETER',
+        { addressHash }
+      );
+    }
+
+    // Validate keyHash is not zero (contract requirement)
+    if (addressHash.toLowerCase() === this.BYTES32_ZERO.toLowerCase()) {
+      throw new SDKError(
+        'keyHash cannot be bytes32 zero value. Please provide a valid key hash generated from keccak256(key).',
+        'INVALID_KEY_HASH',
+        { addressHash }
+      );
+    }
+  }
+
+  /**
+   * Validate destroy parameters
+   * @private
+   */
+  private validateDestroyParams(tokenId: bigint, addressHash: string): void {
+    if (!tokenId) {
+      throw new SDKError('tokenId is required for destroying', 'MISSING_TOKEN_ID', { tokenId });
+    }
+
+    if (!addressHash || !addressHash.trim()) {
+      throw new SDKError('Destroy key cannot be empty', 'INVALID_PARAMETER', { addressHash });
+    }
+  }
+
+  /**
+   * Listen for Transfer events (mint and destroy both emit one)
+   *
+   * @param listener - Called with the decoded event (`from`/`to` are address hashes, bytes32 zero for mint/destroy)
+   * @param filter - Only report events for this tokenId
+   * @returns Unsubscribe function
+   *
+   * @example
+   * ```typescript
+   * const unsubscribe = await membershipManager.onTransfer((event) => {
+   *   console.log(`Membership #${event.tokenId} minted to ${event.to}`);
+   * });
+   * ```
+   */
+  @ensureContractDeployed
+  async onTransfer(
+    listener: (event: TransferEvent) => void,
+    filter?: { tokenId?: bigint }
+  ): Promise<Unsubscribe> {
+    return this.subscribe(
+      'Transfer',
+      listener,
+      filter?.tokenId !== undefined ? [null, null, filter.tokenId] : []
+    );
+  }
+
+  /**
+   * Listen for SnapshotCreated events
+   * @param listener - Called with the new snapshot ID
+   * @returns Unsubscribe function
+   */
+  @ensureContractDeployed
+  async onSnapshotCreated(listener: (event: SnapshotCreatedEvent) => void): Promise<Unsubscribe> {
+    return this.subscribe('SnapshotCreated', listener);
+  }
+
+  /**
+   * Get past Transfer events (mints and destroys)
+   *
+   * @param tokenId - Only return events for this tokenId (default: all tokens)
+   * @param options - Block range (default: genesis to latest) and initial eth_getLogs window
+   * @returns Decoded events in block order, with block timestamps
+   *
+   * @example
+   * ```typescript
+   * const minted = (await membershipManager.getTransferHistory()).filter(
+   *   (e) => e.from === '0x' + '0'.repeat(64)
+   * );
+   * ```
+   */
+  @ensureContractDeployed
+  async getTransferHistory(
+    tokenId?: bigint,
+    options?: EventQueryOptions
+  ): Promise<TimestampedEvent<TransferEvent>[]> {
+    return this.queryEvents(
+      'Transfer',
+      tokenId !== undefined ? [null, null, tokenId] : [],
+      options
+    );
+  }
+
+  /**
+   * Get past SnapshotCreated events
+   * @param options - Block range (default: genesis to latest) and initial eth_getLogs window
+   * @returns Decoded events in block order, with block timestamps
+   */
+  @ensureContractDeployed
+  async getSnapshotHistory(
+    options?: EventQueryOptions
+  ): Promise<TimestampedEvent<SnapshotCreatedEvent>[]> {
+    return this.queryEvents('SnapshotCreated', [], options);
+  }
+
+  /**
+   * Gas and fee estimation for Membership operations
+   * Each estimator runs the same parameter validation as the corresponding write method
+   *
+   * @example
+   * ```typescript
+   * const estimate = await membershipManager.estimate.createSnapshot();
+   * console.log(`Snapshot costs about ${estimate.formattedCost} ${estimate.tokenSymbol}`);
+   * ```
+   */
+  public get estimate(): MembershipGasEstimator {
+    return {
+      createSnapshot: () => this.estimateCreateSnapshot(),
+      mintMembership: (tokenId, addressHash) => this.estimateMintMembership(tokenId, addressHash),
+      destroyMembership: (tokenId, addressHash) =>
+        this.estimateDestroyMembership(tokenId, addressHash),
+    };
+  }
+
+  @ensureContractDeployed
+  private async estimateCreateSnapshot(): Promise<GasEstimate> {
+    const contract = await this.getContract();
+    return this.estimateTransaction(contract, 'createSnapshot', []);
+  }
+
+  @ensureContractDeployed
+  private async estimateMintMembership(tokenId: bigint, addressHash: string): Promise<GasEstimate> {
+    this.validateMintParams(addressHash);
+    const contract = await this.getContract();
+    return this.estimateTransaction(contract, 'mint', [tokenId, addressHash]);
+  }
+
+  @ensureContractDeployed
+  private async estimateDestroyMembership(
+    tokenId: bigint,
+    addressHash: string
+  ): Promise<GasEstimate> {
+    this.validateDestroyParams(tokenId, addressHash);
+    const contract = await this.getContract();
+    return this.estimateTransaction(contract, 'destroy', [tokenId, addressHash]);
+  }
+
   /**
    * Init Instance of MembershipManager
    * Supports both BrowserProvider and JsonRpcProvider modes
@@ -342,7 +546,7 @@ export class MembershipManager extends BaseManager<'membership'> {
       });
     }
 
-    const { walletAddress, provider, signer, debug } = manageConfig;
+    const { walletAddress, provider, signer, debug, transaction, memberHash } = manageConfig;
 
     // Resolve wallet address: if JsonRpcProvider mode and signer provided, extract from privateKey
     // Wallet object has address property that can be accessed synchronously
@@ -378,6 +582,8 @@ export class MembershipManager extends BaseManager<'membership'> {
       network: network,
       factoryAddress: membership_factory_address,
       signerConfig: signer,
+      transaction,
+      memberHash,
     };
     this.instance = new MembershipManager(config);
     await this.instance.ensureNetwork();
@@ -385,10 +591,7 @@ export class MembershipManager extends BaseManager<'membership'> {
     if (config.factoryAddress) {
       validateAddress(config.factoryAddress, 'Factory address');
       this.instance.factoryAddress = config.factoryAddress;
-      if (!this.instance.provider) {
-        throw new SDKError('Provider is not available', 'PROVIDER_NOT_AVAILABLE');
-      }
-      const signerInstance = await getSigner(this.instance.provider, this.instance.signerConfig);
+      const signerInstance = await this.instance.getSigner();
       this.instance.factoryContract = createContract(
         config.factoryAddress,
         MEMBERSHIP_FACTORY_ABI,
@@ -411,8 +614,8 @@ export class MembershipManager extends BaseManager<'membership'> {
    * Deploy MembershipFactory contract (alias for base deployFactory)
    * @deprecated Use deployFactory() instead
    */
-  async deployMembershipFactory(): Promise<DeploymentResult> {
-    return this.deployFactory();
+  async deployMembershipFactory(options?: TransactionOptions): Promise<DeploymentResult> {
+    return this.deployFactory(options);
   }
 
   /**
@@ -420,8 +623,12 @@ export class MembershipManager extends BaseManager<'membership'> {
    * @deprecated Use deployContract() instead
    */
   @ensureFactoryDeployed
-  async deployMembership(name: string, symbol: string): Promise<DeploymentResult> {
-    return this.deployContract(name, symbol);
+  async deployMembership(
+    name: string,
+    symbol: string,
+    options?: TransactionOptions
+  ): Promise<DeploymentResult> {
+    return this.deployContract(name, symbol, options);
   }
 
   /**
@@ -432,23 +639,19 @@ export class MembershipManager extends BaseManager<'membership'> {
    * 2. Parse the SnapshotCreated event from receipt to get snapshot ID
    * 3. This avoids race conditions and extra RPC calls
    *
+   * @param options - Optional transaction lifecycle hooks
    * @returns Snapshot ID
    */
+  @notifyTransactionError
   @ensureContractDeployed
-  async createSnapshot(): Promise<bigint> {
+  async createSnapshot(options?: TransactionOptions): Promise<bigint> {
     await this.ensureNetwork();
     const contract = await this.getContract();
 
     try {
       // Execute createSnapshot transaction
       // this.logger.info('Sending createSnapshot transaction...');
-      const tx: ContractTransactionResponse = await contract.createSnapshot();
-
-      // this.logger.info(`Snapshot transaction sent: ${tx.hash}. Waiting for confirmation...`);
-      const receipt = await tx.wait();
-      if (!receipt) {
-        throw new SDKError('Transaction receipt not available', 'TX_RECEIPT_ERROR');
-      }
+      const receipt = await this.sendTransaction(contract, 'createSnapshot', [], options);
 
       // this.logger.info(`Transaction confirmed in block ${receipt.blockNumber}`);
       // Parse snapshot ID from SnapshotCreated event
@@ -461,6 +664,8 @@ export class MembershipManager extends BaseManager<'membership'> {
       this.logger.error('Failed to create snapshot:', error);
 
       const contractAddress = this.getContractAddress();
+      this.throwIfRevert(error, { contractAddress });
+
       if (error.code === 'CALL_EXCEPTION') {
         throw new SDKError(
           'Contract call failed. You may not have permission to create snapshots.',
@@ -501,46 +706,24 @@ export class MembershipManager extends BaseManager<'membership'> {
    *
    * @param tokenId - Token ID to mint
    * @param addressHash - Member address hash (bytes32)
+   * @param options - Optional transaction lifecycle hooks
    * @returns Mint result with token information and transaction details
    */
+  @notifyTransactionError
   @ensureContractDeployed
-  async mintMembership(tokenId: bigint, addressHash: string): Promise<MintResult> {
+  async mintMembership(
+    tokenId: bigint,
+    addressHash: string,
+    options?: TransactionOptions
+  ): Promise<MintResult> {
     await this.ensureNetwork();
     const contract = await this.getContract();
-
-    // Validate keyHash is provided
-    if (!addressHash || !addressHash.trim()) {
-      throw new SDKError('keyHash is required for minting', 'MISSING_KEY_HASH', { addressHash });
-    }
-
-    // Validate keyHash format
-    if (addressHash.length !== 66 || !addressHash.startsWith('0x')) {
-      throw new SDKError(
-        'Invalid keyHash format. Expected bytes32 (0x + 64 hex characters)',
-        'INVALID_PARAMETER',
-        { addressHash }
-      );
-    }
-
-    // Validate keyHash is not zero (contract requirement)
-    if (addressHash.toLowerCase() === this.BYTES32_ZERO.toLowerCase()) {
-      throw new SDKError(
-        'keyHash cannot be bytes32 zero value. Please provide a valid key hash generated from keccak256(key).',
-        'INVALID_KEY_HASH',
-        { addressHash }
-      );
-    }
+    this.validateMintParams(addressHash);
 
     try {
       // Step 1: Execute mint transaction
       // this.logger.info('Step 1/2: Sending mint transaction...');
-      const tx: ContractTransactionResponse = await contract.mint(tokenId, addressHash);
-
-      // this.logger.info(`Mint transaction sent: ${tx.hash}. Waiting for confirmation...`);
-      const receipt = await tx.wait();
-      if (!receipt) {
-        throw new SDKError('Transaction receipt not available', 'TX_RECEIPT_ERROR');
-      }
+      const receipt = await this.sendTransaction(contract, 'mint', [tokenId, addressHash], options);
       // this.logger.info(`Transaction confirmed in block ${receipt.blockNumber}`);
       const transferEvent = await this.parseTransferEvent(receipt, tokenId, addressHash);
 
@@ -553,6 +736,8 @@ export class MembershipManager extends BaseManager<'membership'> {
         to: transferEvent.to,
         transactionHash: receipt.hash,
         blockNumber: receipt.blockNumber,
+        ...this.getReceiptCosts(receipt),
+        verified: true,
       };
     } catch (error: any) {
       if (error instanceof SDKError) throw error;
@@ -560,6 +745,8 @@ export class MembershipManager extends BaseManager<'membership'> {
       this.logger.error('Failed to mint membership:', error);
 
       const contractAddress = this.getContractAddress();
+      this.throwIfRevert(error, { contractAddress, tokenId, addressHash });
+
       if (error.code === 'CALL_EXCEPTION') {
         throw new SDKError(
           'Contract call failed. The token may already exist or you may not have minting permission.',
@@ -591,6 +778,102 @@ export class MembershipManager extends BaseManager<'membership'> {
     }
   }
 
+  /**
+   * Import a membership roster and mint a token for every member
+   *
+   * Implementation strategy:
+   * 1. Parse the CSV/JSON roster, normalize and hash addresses, reject duplicates
+   * 2. Mint the valid rows with bounded concurrency (a failed row does not abort the import)
+   * 3. Return a per-row report (see formatRosterReport to render it for operators)
+   *
+   * @param roster - CSV/JSON text or parsed rows of `{ tokenId, address?, addressHash? }`
+   * @param options - Format, concurrency, invalid-row handling, progress and transaction settings
+   * @returns Import report with one row per roster line
+   * @throws SDKError (INVALID_ROSTER) if rows are invalid and `skipInvalid` is not set (nothing is sent)
+   *
+   * @example
+   * ```typescript
+   * const report = await membershipManager.importRoster(csvText, {
+   *   onProgress: (row, settled, total) => console.log(`${settled}/${total}`, row.status),
+   * });
+   * download('report.csv', formatRosterReport(report));
+   * ```
+   */
+  @ensureContractDeployed
+  async importRoster(
+    roster: string | RosterRow[],
+    options?: RosterImportOptions
+  ): Promise<RosterImportReport> {
+    await this.ensureNetwork();
+    const startedAt = new Date().toISOString();
+    const {
+      format,
+      concurrency = 5,
+      stopOnError = false,
+      skipInvalid = false,
+      onProgress,
+      salt = this.memberHashOptions.salt,
+      ...transaction
+    } = options || {};
+    this.resolveTransactionSettings(transaction);
+
+    const { entries, issues } = parseRoster(roster, format, { salt });
+    if (issues.length > 0 && !skipInvalid) {
+      throw new SDKError(
+        `Roster has ${issues.length} invalid row(s). Fix them or pass skipInvalid to import the rest.`,
+        'INVALID_ROSTER',
+        { issues }
+      );
+    }
+
+    const batch = await runBatch(
+      entries,
+      (entry) => this.mintMembership(entry.tokenId, entry.addressHash, transaction),
+      {
+        concurrency,
+        stopOnError,
+        onSettled: onProgress
+          ? (result, settled, total) => onProgress(this.toRosterRowReport(result), settled, total)
+          : undefined,
+      }
+    );
+
+    // One report row per roster line, in roster order (invalid rows only present with skipInvalid)
+    const invalidRows = new Map<number, RosterRowReport>();
+    for (const issue of issues) {
+      const existing = invalidRows.get(issue.line);
+      const message = `${issue.field}: ${issue.message}`;
+      if (existing) {
+        existing.errorMessage = `${existing.errorMessage}; ${message}`;
+      } else {
+        invalidRows.set(issue.line, {
+          line: issue.line,
+          tokenId: issue.tokenId,
+          status: 'invalid',
+          errorCode: 'INVALID_ROSTER_ROW',
+          errorMessage: message,
+        });
+      }
+    }
+
+    const rows = [
+      ...batch.results.map((result) => this.toRosterRowReport(result)),
+      ...invalidRows.values(),
+    ].sort((a, b) => a.line - b.line);
+
+    return {
+      contractAddress: this.getContractAddress() || '',
+      startedAt,
+      finishedAt: new Date().toISOString(),
+      total: rows.length,
+      minted: batch.succeeded,
+      failed: batch.failed,
+      skipped: batch.skipped,
+      invalid: invalidRows.size,
+      rows,
+    };
+  }
+
   /**
    * Destroy (burn) a membership token
    *
@@ -601,30 +884,28 @@ export class MembershipManager extends BaseManager<'membership'> {
    *
    * @param tokenId - Token ID to destroy
    * @param addressHash - Member address hash (bytes32) for verification
+   * @param options - Optional transaction lifecycle hooks
    * @returns Destroy result with token information and transaction details
    */
+  @notifyTransactionError
   @ensureContractDeployed
-  async destroyMembership(tokenId: bigint, addressHash: string): Promise<DestroyResult> {
+  async destroyMembership(
+    tokenId: bigint,
+    addressHash: string,
+    options?: TransactionOptions
+  ): Promise<DestroyResult> {
     await this.ensureNetwork();
     const contract = await this.getContract();
-
-    // Validate parameters
-    if (!tokenId) {
-      throw new SDKError('tokenId is required for destroying', 'MISSING_TOKEN_ID', { tokenId });
-    }
-
-    if (!addressHash || !addressHash.trim()) {
-      throw new SDKError('Destroy key cannot be empty', 'INVALID_PARAMETER', { addressHash });
-    }
+    this.validateDestroyParams(tokenId, addressHash);
 
     try {
       // Step 1: Execute destroy transaction
-      const tx: ContractTransactionResponse = await contract.destroy(tokenId, addressHash);
-
-      const receipt = await tx.wait();
-      if (!receipt) {
-        throw new SDKError('Transaction receipt not available', 'TX_RECEIPT_ERROR');
-      }
+      const receipt = await this.sendTransaction(
+        contract,
+        'destroy',
+        [tokenId, addressHash],
+        options
+      );
 
       // Step 2: Verify destruction via Transfer event (burn)
       const burnEvent = await this.parseBurnEvent(receipt, tokenId, addressHash);
@@ -634,6 +915,8 @@ export class MembershipManager extends BaseManager<'membership'> {
         from: burnEvent.from,
         transactionHash: receipt.hash,
         blockNumber: receipt.blockNumber,
+        ...this.getReceiptCosts(receipt),
+        verified: true,
       };
     } catch (error: any) {
       if (error instanceof SDKError) throw error;
@@ -641,6 +924,8 @@ export class MembershipManager extends BaseManager<'membership'> {
       this.logger.error('Failed to destroy membership:', error);
 
       const contractAddress = this.getContractAddress();
+      this.throwIfRevert(error, { contractAddress, tokenId, addressHash });
+
       if (error.code === 'CALL_EXCEPTION') {
         throw new SDKError(
           'Contract call failed. The token may not exist or you may not have permission to destroy it.',
@@ -820,4 +1105,213 @@ export class MembershipManager extends BaseManager<'membership'> {
       );
     }
   }
+
+  /**
+   * Hash a member identity with the manager's default type and salt (see getMemberHash)
+   *
+   * @param identity - Wallet address, email, phone number or custom identifier
+   * @param options - Overrides of the manager's `memberHash` settings
+   * @returns bytes32 member hash
+   * @throws SDKError (INVALID_MEMBER_IDENTITY) if the identity is not valid for its type
+   */
+  getMemberHash(identity: string, options?: MemberHashOptions): string {
+    return getMemberHash(identity, { ...this.memberHashOptions, ...options });
+  }
+
+  /**
+   * Mint a membership for a member identity instead of a precomputed hash
+   *
+   * @param tokenId - Token ID to mint
+   * @param identity - Wallet address, email, phone number or custom identifier
+   * @param options - Identity type and salt (default: the manager's `memberHash` settings) and
+   *   transaction options
+   * @returns Mint result with token information and transaction details
+   *
+   * @example
+   * ```typescript
+   * await membershipManager.mintMember(1n, '+1 (415) 555-0123', { type: 'phone' });
+   * ```
+   */
+  @notifyTransactionError
+  async mintMember(
+    tokenId: bigint,
+    identity: string,
+    options: MemberHashOptions & TransactionOptions = {}
+  ): Promise<MintResult> {
+    // onError is called once, by this method
+    const { type, salt, onError: _, ...transaction } = options;
+    return this.mintMembership(tokenId, this.getMemberHash(identity, { type, salt }), transaction);
+  }
+
+  /**
+   * Destroy the membership of a member identity
+   *
+   * @param tokenId - Token ID to destroy
+   * @param identity - Identity the membership was minted for
+   * @param options - Identity type and salt (default: the manager's `memberHash` settings) and
+   *   transaction options
+   * @returns Destroy result with token information and transaction details
+   */
+  @notifyTransactionError
+  async destroyMember(
+    tokenId: bigint,
+    identity: string,
+    options: MemberHashOptions & TransactionOptions = {}
+  ): Promise<DestroyResult> {
+    // onError is called once, by this method
+    const { type, salt, onError: _, ...transaction } = options;
+    return this.destroyMembership(
+      tokenId,
+      this.getMemberHash(identity, { type, salt }),
+      transaction
+    );
+  }
+
+  /**
+   * Check if a member identity is in a snapshot
+   *
+   * @param snapshotId - Snapshot ID
+   * @param identity - Wallet address, email, phone number or custom identifier
+   * @param options - Identity type and salt (default: the manager's `memberHash` settings)
+   * @returns True if the member is in the snapshot
+   */
+  async isIdentityInSnapshot(
+    snapshotId: bigint,
+    identity: string,
+    options?: MemberHashOptions
+  ): Promise<boolean> {
+    return this.isMemberInSnapshot(snapshotId, this.getMemberHash(identity, options));
+  }
+
+  /**
+   * Compare two snapshots
+   *
+   * @param fromSnapshotId - Earlier snapshot
+   * @param toSnapshotId - Later snapshot
+   * @returns Member hashes added, removed and retained (lowercase)
+   * @throws SDKError (SNAPSHOT_NOT_FOUND) if either snapshot does not exist
+   *
+   * @example
+   * ```typescript
+   * const diff = await membershipManager.diffSnapshots(3n, 4n);
+   * console.log(`${diff.added.length} joined, ${diff.removed.length} left`);
+   * ```
+   */
+  @ensureContractDeployed
+  async diffSnapshots(fromSnapshotId: bigint, toSnapshotId: bigint): Promise<SnapshotDiff> {
+    await this.assertSnapshotsExist(fromSnapshotId, toSnapshotId);
+
+    const [from, to] = await Promise.all([
+      this.getMemberSnapshot(fromSnapshotId),
+      this.getMemberSnapshot(toSnapshotId),
+    ]);
+
+    return { fromSnapshotId, toSnapshotId, ...diffMemberHashes(from, to) };
+  }
+
+  /**
+   * Compare the latest snapshot with the live membership reconstructed from Transfer events
+   *
+   * @param options - Block range for the event scan (default: genesis to latest)
+   * @returns Members added, removed and retained since the latest snapshot
+   * @throws SDKError (SNAPSHOT_NOT_FOUND) if no snapshot exists yet
+   *
+   * @example
+   * ```typescript
+   * const diff = await membershipManager.diffLatestSnapshot({ fromBlock: deploymentBlock });
+   * if (diff.added.length || diff.removed.length) await membershipManager.createSnapshot();
+   * ```
+   */
+  @ensureContractDeployed
+  async diffLatestSnapshot(options?: EventQueryOptions): Promise<LiveSnapshotDiff> {
+    const snapshotId = await this.getLatestSnapshotId();
+    if (snapshotId < 1n) {
+      throw new SDKError('No snapshot has been created yet', 'SNAPSHOT_NOT_FOUND', {
+        contractAddress: this.getContractAddress(),
+      });
+    }
+
+    const [snapshot, live] = await Promise.all([
+      this.getMemberSnapshot(snapshotId),
+      this.getLiveMembers(options),
+    ]);
+
+    return {
+      snapshotId,
+      blockNumber: live.blockNumber,
+      ...diffMemberHashes(snapshot, live.members),
+    };
+  }
+
+  /**
+   * Reconstruct the current members from mint and destroy Transfer events
+   *
+   * @param options - Block range for the event scan (default: genesis to latest)
+   * @returns Member address hashes of live tokens and the block they were read at
+   */
+  @ensureContractDeployed
+  async getLiveMembers(options: EventQueryOptions = {}): Promise<LiveMembers> {
+    const blockNumber =
+      options.toBlock === undefined || options.toBlock === 'latest'
+        ? await this.provider!.getBlockNumber()
+        : options.toBlock;
+
+    const holders = new Map<bigint, string>();
+    for (const event of await this.fetchEvents('Transfer', [], {
+      ...options,
+      toBlock: blockNumber,
+    })) {
+      if (event.to.toLowerCase() === this.BYTES32_ZERO) {
+        holders.delete(event.tokenId);
+      } else {
+        holders.set(event.tokenId, event.to.toLowerCase());
+      }
+    }
+
+    const tokens = [...holders].map(([tokenId, addressHash]) => ({ tokenId, addressHash }));
+    return {
+      members: [...new Set(tokens.map((token) => token.addressHash))],
+      tokens,
+      blockNumber,
+    };
+  }
+
+  /**
+   * Build a Merkle tree over a snapshot's member hashes, for off-chain membership proofs
+   * The tree records the snapshot ID, contract address and chain ID in its exports and proofs
+   *
+   * @param snapshotId - Snapshot to commit to
+   * @returns Tree exposing the root, per-member proofs and a JSON export
+   * @throws SDKError (SNAPSHOT_NOT_FOUND) if the snapshot does not exist
+   *
+   * @example
+   * ```typescript
+   * const tree = await membershipManager.getSnapshotMerkleTree(4n);
+   * await publishRoot(tree.root);
+   * const proof = tree.getProof(getAddressHash(memberAddress));
+   * ```
+   */
+  @ensureContractDeployed
+  async getSnapshotMerkleTree(snapshotId: bigint): Promise<MembershipMerkleTree> {
+    await this.assertSnapshotsExist(snapshotId);
+
+    const members = await this.getMemberSnapshot(snapshotId);
+    return new MembershipMerkleTree(members, {
+      snapshotId,
+      contractAddress: this.getContractAddress()!,
+      chainId: this.networkConfig ? Number(this.networkConfig.chain_id) : undefined,
+    });
+  }
+
+  private async assertSnapshotsExist(...snapshotIds: bigint[]): Promise<void> {
+    const latest = await this.getLatestSnapshotId();
+    for (const snapshotId of snapshotIds) {
+      if (typeof snapshotId !== 'bigint' || snapshotId < 1n || snapshotId > latest) {
+        throw new SDKError(`Snapshot #${snapshotId} does not exist`, 'SNAPSHOT_NOT_FOUND', {
+          snapshotId,
+          latestSnapshotId: latest,
+        });
+      }
+    }
+  }
 }
@@ -0,0 +1,105 @@
+import { SDKError } from '../types';
+import type { StorageAdapter } from '../types';
+
+const STORE_NAME = 'entries';
+
+/**
+ * Browser storage adapter backed by IndexedDB (one object store, keyed by string)
+ *
+ * @example
+ * ```typescript
+ * const storage = new IndexedDBStorageAdapter('ddc-market');
+ * const indexer = await ddcnftManager.createIndexer({ storage });
+ * ```
+ */
+export class IndexedDBStorageAdapter implements StorageAdapter {
+  readonly databaseName: string;
+
+  private database?: Promise<IDBDatabase>;
+
+  constructor(databaseName = 'ddc-market-sdk') {
+    this.databaseName = databaseName;
+  }
+
+  async get<T = unknown>(key: string): Promise<T | undefined> {
+    return this.request<T | undefined>('readonly', (store) => store.get(key));
+  }
+
+  async set<T = unknown>(key: string, value: T): Promise<void> {
+    await this.request('readwrite', (store) => store.put(value, key));
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.request('readwrite', (store) => store.delete(key));
+  }
+
+  async keys(prefix = ''): Promise<string[]> {
+    const keys = await this.request<IDBValidKey[]>('readonly', (store) => store.getAllKeys());
+    return keys.map(String).filter((key) => key.startsWith(prefix));
+  }
+
+  /**
+   * Close the database connection (it is reopened on the next call)
+   */
+  async close(): Promise<void> {
+    if (!this.database) return;
+    const database = this.database;
+    this.database = undefined;
+    (await database).close();
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (typeof indexedDB === 'undefined') {
+      throw new SDKError(
+        'IndexedDB is not available in this environment; use JsonFileStorageAdapter in Node.js',
+        'STORAGE_NOT_AVAILABLE'
+      );
+    }
+
+    this.database ??= new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(this.databaseName, 1);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+          request.result.createObjectStore(STORE_NAME);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        this.database = undefined;
+        reject(
+          new SDKError(
+            `Failed to open IndexedDB database ${this.databaseName}: ${request.error?.message}`,
+            'STORAGE_ERROR',
+            { databaseName: this.databaseName }
+          )
+        );
+      };
+    });
+    return this.database;
+  }
+
+  private async request<T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest
+  ): Promise<T> {
+    const database = await this.open();
+
+    return new Promise<T>((resolve, reject) => {
+      const transaction = database.transaction(STORE_NAME, mode);
+      const request = operation(transaction.objectStore(STORE_NAME));
+      const fail = () =>
+        reject(
+          new SDKError(
+            `IndexedDB request failed: ${(request.error || transaction.error)?.message}`,
+            'STORAGE_ERROR',
+            { databaseName: this.databaseName }
+          )
+        );
+
+      // Resolve once the transaction commits so writes are durable
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = fail;
+      transaction.onabort = fail;
+    });
+  }
+}
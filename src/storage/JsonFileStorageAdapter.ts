@@ -0,0 +1,118 @@
+import { SDKError } from '../types';
+import type { StorageAdapter } from '../types';
+
+type FsPromises = typeof import('node:fs/promises');
+
+/**
+ * Node.js storage adapter that keeps every entry in one JSON file
+ * Writes go to a temporary file that is then renamed, so a crash never leaves a truncated file
+ *
+ * @example
+ * ```typescript
+ * const storage = new JsonFileStorageAdapter('./ddc-index.json');
+ * const indexer = await ddcnftManager.createIndexer({ storage });
+ * ```
+ */
+export class JsonFileStorageAdapter implements StorageAdapter {
+  readonly filePath: string;
+
+  private entries?: Record<string, unknown>;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(filePath: string) {
+    if (!filePath || typeof filePath !== 'string') {
+      throw new SDKError('filePath must be a non-empty string', 'INVALID_PARAMETER', {
+        filePath,
+      });
+    }
+    this.filePath = filePath;
+  }
+
+  async get<T = unknown>(key: string): Promise<T | undefined> {
+    const entries = await this.load();
+    return entries[key] === undefined ? undefined : (structuredClone(entries[key]) as T);
+  }
+
+  async set<T = unknown>(key: string, value: T): Promise<void> {
+    return this.enqueue(async () => {
+      const entries = { ...(await this.load()), [key]: structuredClone(value) };
+      await this.flush(entries);
+    });
+  }
+
+  async delete(key: string): Promise<void> {
+    return this.enqueue(async () => {
+      const { [key]: removed, ...entries } = await this.load();
+      if (removed === undefined) return;
+      await this.flush(entries);
+    });
+  }
+
+  async keys(prefix = ''): Promise<string[]> {
+    const entries = await this.load();
+    return Object.keys(entries).filter((key) => key.startsWith(prefix));
+  }
+
+  private async load(): Promise<Record<string, unknown>> {
+    if (this.entries) return this.entries;
+
+    const fs = await loadFs();
+    let text: string;
+    try {
+      text = await fs.readFile(this.filePath, 'utf8');
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') {
+        this.entries = {};
+        return this.entries;
+      }
+      throw new SDKError(`Failed to read ${this.filePath}: ${error.message}`, 'STORAGE_ERROR', {
+        filePath: this.filePath,
+      });
+    }
+
+    try {
+      this.entries = text.trim() ? JSON.parse(text) : {};
+    } catch (error: any) {
+      throw new SDKError(`${this.filePath} is not valid JSON: ${error.message}`, 'STORAGE_ERROR', {
+        filePath: this.filePath,
+      });
+    }
+    return this.entries!;
+  }
+
+  private async flush(entries: Record<string, unknown>): Promise<void> {
+    const fs = await loadFs();
+    const tempPath = `${this.filePath}.tmp`;
+    try {
+      await fs.writeFile(tempPath, JSON.stringify(entries), 'utf8');
+      await fs.rename(tempPath, this.filePath);
+      this.entries = entries;
+    } catch (error: any) {
+      throw new SDKError(`Failed to write ${this.filePath}: ${error.message}`, 'STORAGE_ERROR', {
+        filePath: this.filePath,
+      });
+    }
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task);
+    // Keep the queue alive after failures
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+}
+
+/**
+ * Load node:fs/promises lazily so browser bundles never resolve it
+ */
+async function loadFs(): Promise<FsPromises> {
+  const specifier = 'node:fs/promises';
+  try {
+    return await import(/* @vite-ignore */ specifier);
+  } catch {
+    throw new SDKError(
+      'JsonFileStorageAdapter requires Node.js; use IndexedDBStorageAdapter in browsers',
+      'STORAGE_NOT_AVAILABLE'
+    );
+  }
+}
@@ -0,0 +1,26 @@
+import type { StorageAdapter } from '../types';
+
+/**
+ * In-memory storage adapter (state is lost when the process or page exits)
+ * Values are copied on read and write, like a persistent store would
+ */
+export class MemoryStorageAdapter implements StorageAdapter {
+  private readonly entries = new Map<string, unknown>();
+
+  async get<T = unknown>(key: string): Promise<T | undefined> {
+    const value = this.entries.get(key);
+    return value === undefined ? undefined : (structuredClone(value) as T);
+  }
+
+  async set<T = unknown>(key: string, value: T): Promise<void> {
+    this.entries.set(key, structuredClone(value));
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async keys(prefix = ''): Promise<string[]> {
+    return [...this.entries.keys()].filter((key) => key.startsWith(prefix));
+  }
+}
@@ -0,0 +1,3 @@
+export { MemoryStorageAdapter } from './MemoryStorageAdapter';
+export { JsonFileStorageAdapter } from './JsonFileStorageAdapter';
+export { IndexedDBStorageAdapter } from './IndexedDBStorageAdapter';
@@ -3,6 +3,8 @@ import type {
   Provider,
   Signer,
   BrowserProvider,
+  TransactionReceipt,
+  TransactionResponse,
 } from 'ethers';
 import type { AxiosError } from 'axios';
 
@@ -66,6 +68,20 @@ export interface ManagerParams {
    * Enable debug logging
    */
   debug?: boolean;
+  /**
+   * Default confirmation depth, timeout and simulation mode applied to every write transaction
+   * Can be overridden per call through TransactionOptions
+   */
+  transaction?: TransactionConfig;
+  /**
+   * Minimum strength of holder keys passed to mintWithKey() / transferToKey() (DDCNFTManager only)
+   */
+  keyPolicy?: KeyPolicy;
+  /**
+   * Default identity type and salt for member hashing (MembershipManager only)
+   * Use the same settings for the whole contract so snapshots stay comparable
+   */
+  memberHash?: MemberHashOptions;
 }
 
 /**
@@ -93,6 +109,50 @@ export interface ManagerConfig {
    * When using JsonRpcProvider, provide privateKey to sign transactions
    */
   signerConfig?: SignerConfig;
+  /**
+   * Default settings for write transactions
+   */
+  transaction?: TransactionConfig;
+  /**
+   * Holder key strength policy
+   */
+  keyPolicy?: KeyPolicy;
+  /**
+   * Default member hashing settings
+   */
+  memberHash?: MemberHashOptions;
+}
+
+/**
+ * Settings applied to write transactions
+ */
+export interface TransactionConfig {
+  /**
+   * Number of block confirmations required before a write resolves (default: 1)
+   */
+  confirmations?: number;
+  /**
+   * Maximum time in milliseconds to wait for the required confirmations
+   * When exceeded, the write rejects with a TRANSACTION_TIMEOUT SDKError carrying the tx hash
+   * (default: no timeout)
+   */
+  timeout?: number;
+  /**
+   * Simulate each write with `staticCall` before sending it (default: false)
+   * Reverts are decoded into precise SDKError codes before any gas is spent
+   */
+  simulate?: boolean;
+  /**
+   * Throw when the emitted events don't match the request (default: false)
+   * When disabled, a mismatch is logged and the result is marked `verified: false`
+   */
+  strict?: boolean;
+  /**
+   * Check the key against the token's current holder hash (ownerOf) before sending or
+   * estimating destroy / transfer (DDCNFTManager only, default: true)
+   * A mismatch throws KEY_MISMATCH without broadcasting the key. Costs one eth_call
+   */
+  verifyKey?: boolean;
 }
 
 /**
@@ -147,6 +207,71 @@ export interface DeploymentResult {
   blockNumber?: number;
 }
 
+/**
+ * Encoding of a holder key: generated `words` (BIP39) or `base32`, or any other `custom` string
+ */
+export type KeyFormat = 'words' | 'base32' | 'custom';
+
+/**
+ * Options for generateKey
+ */
+export interface GenerateKeyOptions {
+  /**
+   * Encoding (default: 'words')
+   */
+  format?: Exclude<KeyFormat, 'custom'>;
+
+  /**
+   * Entropy in bits: 128, 160, 192, 224 or 256 (default: 128)
+   */
+  strength?: number;
+}
+
+/**
+ * Key decoded by parseKey
+ */
+export interface ParsedKey {
+  /**
+   * Canonical form (the string whose hash is stored on-chain)
+   */
+  key: string;
+  format: Exclude<KeyFormat, 'custom'>;
+  bits: number;
+
+  /**
+   * Raw entropy (hex)
+   */
+  entropy: string;
+}
+
+/**
+ * Minimum strength enforced on caller-supplied holder keys
+ */
+export interface KeyPolicy {
+  /**
+   * Minimum estimated entropy in bits (default: 128)
+   */
+  minBits?: number;
+
+  /**
+   * Accept keys that are not generateKey() encodings (default: true)
+   */
+  allowCustomKeys?: boolean;
+}
+
+/**
+ * Estimated strength of a holder key
+ */
+export interface KeyStrength {
+  format: KeyFormat;
+  bits: number;
+
+  /**
+   * Whether the key satisfies the policy it was checked against
+   */
+  acceptable: boolean;
+}
+
 /**
  * Token mint result
  */
@@ -170,6 +295,26 @@ export interface MintResult {
    * Block number where token was minted
    */
   blockNumber?: number;
+
+  /**
+   * Gas used by the transaction
+   */
+  gasUsed: bigint;
+
+  /**
+   * Effective gas price paid (wei)
+   */
+  effectiveGasPrice: bigint;
+
+  /**
+   * Total fee paid (gasUsed * effectiveGasPrice, wei)
+   */
+  fee: bigint;
+
+  /**
+   * Whether the result was confirmed by the emitted events
+   */
+  verified: boolean;
 }
 
 /**
@@ -195,6 +340,1225 @@ export interface DestroyResult {
    * Block number where token was destroyed
    */
   blockNumber?: number;
+
+  /**
+   * Gas used by the transaction
+   */
+  gasUsed: bigint;
+
+  /**
+   * Effective gas price paid (wei)
+   */
+  effectiveGasPrice: bigint;
+
+  /**
+   * Total fee paid (gasUsed * effectiveGasPrice, wei)
+   */
+  fee: bigint;
+
+  /**
+   * Whether the result was confirmed by the emitted events
+   */
+  verified: boolean;
+}
+
+/**
+ * Token transfer result
+ */
+export interface TransferResult {
+  /**
+   * Transferred token ID
+   */
+  tokenId: bigint;
+
+  /**
+   * Previous holder hash (bytes32)
+   */
+  from: string;
+
+  /**
+   * New holder hash (bytes32)
+   */
+  to: string;
+
+  /**
+   * Transaction hash
+   */
+  transactionHash: string;
+
+  /**
+   * Block number where token was transferred
+   */
+  blockNumber?: number;
+
+  /**
+   * Gas used by the transaction
+   */
+  gasUsed: bigint;
+
+  /**
+   * Effective gas price paid (wei)
+   */
+  effectiveGasPrice: bigint;
+
+  /**
+   * Total fee paid (gasUsed * effectiveGasPrice, wei)
+   */
+  fee: bigint;
+
+  /**
+   * Whether the result was confirmed by the emitted events
+   */
+  verified: boolean;
+}
+
+/**
+ * Result of mintWithKey
+ */
+export interface KeyedMintResult extends MintResult {
+  /**
+   * Canonical holder key (generated when none was passed); hand it to the holder
+   */
+  key: string;
+}
+
+/**
+ * Result of transferToKey
+ */
+export interface KeyedTransferResult extends TransferResult {
+  /**
+   * Canonical key of the new holder (generated when none was passed)
+   */
+  key: string;
+}
+
+/**
+ * Log metadata attached to every decoded contract event
+ */
+export interface ContractEventMeta {
+  /**
+   * Address of the contract that emitted the event
+   */
+  contractAddress: string;
+  blockNumber: number;
+  blockHash: string;
+  transactionHash: string;
+
+  /**
+   * Position of the log in the block
+   */
+  logIndex: number;
+}
+
+/**
+ * Transfer event (mint: `from` is bytes32 zero, destroy: `to` is bytes32 zero)
+ * DDCNFT emits key hashes, Membership emits address hashes
+ */
+export interface TransferEvent extends ContractEventMeta {
+  from: string;
+  to: string;
+  tokenId: bigint;
+}
+
+/**
+ * DDCNFT TokenDestroyed event (`ownerHash` is the key hash used to destroy)
+ */
+export interface TokenDestroyedEvent extends ContractEventMeta {
+  tokenId: bigint;
+  ownerHash: string;
+}
+
+/**
+ * DDCNFT Paused / Unpaused event
+ */
+export interface PausedEvent extends ContractEventMeta {
+  /**
+   * Account that paused or unpaused the contract
+   */
+  account: string;
+}
+
+/**
+ * Membership SnapshotCreated event
+ */
+export interface SnapshotCreatedEvent extends ContractEventMeta {
+  snapshotId: bigint;
+}
+
+/**
+ * OwnershipTransferred event
+ */
+export interface OwnershipTransferredEvent extends ContractEventMeta {
+  previousOwner: string;
+  newOwner: string;
+}
+
+/**
+ * Stops an event subscription (safe to call more than once)
+ */
+export type Unsubscribe = () => Promise<void>;
+
+/**
+ * Block range for historical event queries
+ */
+export interface EventQueryOptions {
+  /**
+   * First block to search (default: 0; set it to the deployment block to save RPC calls)
+   */
+  fromBlock?: number;
+
+  /**
+   * Last block to search (default: 'latest')
+   */
+  toBlock?: number | 'latest';
+
+  /**
+   * Initial number of blocks per eth_getLogs call (default: the whole range)
+   * The window is halved automatically whenever the RPC rejects it
+   */
+  maxBlockRange?: number;
+}
+
+/**
+ * Historical event with the timestamp (unix seconds) of the block it was emitted in
+ */
+export type TimestampedEvent<T extends ContractEventMeta> = T & { timestamp: number };
+
+/**
+ * Entry of the DDCNFT pause history (Paused and Unpaused events merged)
+ */
+export interface PauseHistoryEvent extends PausedEvent {
+  /**
+   * true for Paused, false for Unpaused
+   */
+  paused: boolean;
+}
+
+/**
+ * One link of a DDCNFT token's ownership chain
+ */
+export interface ProvenanceStep extends ContractEventMeta {
+  type: 'mint' | 'transfer' | 'destroy';
+
+  /**
+   * Key hash that held the token before this step (null for mint)
+   */
+  fromHash: string | null;
+
+  /**
+   * Key hash that holds the token after this step (null for destroy)
+   */
+  toHash: string | null;
+
+  /**
+   * Block timestamp (unix seconds)
+   */
+  timestamp: number;
+}
+
+/**
+ * Ownership chain of a DDCNFT token, rebuilt from Transfer and TokenDestroyed events
+ */
+export interface TokenProvenance {
+  tokenId: bigint;
+
+  /**
+   * Mint, transfers and destroy in block order
+   */
+  steps: ProvenanceStep[];
+
+  /**
+   * Key hash holding the token after the last step (null once destroyed)
+   */
+  currentHolderHash: string | null;
+  destroyed: boolean;
+
+  /**
+   * Whether the chain starts with a mint and every step starts from the previous holder
+   * false usually means the queried block range does not cover the whole history
+   */
+  complete: boolean;
+}
+
+/**
+ * Options for DDCNFTManager.listTokens
+ */
+export interface ListTokensOptions extends EventQueryOptions {
+  /**
+   * Include destroyed tokens (default: false)
+   */
+  includeDestroyed?: boolean;
+
+  /**
+   * Read tokenURI and the current holder hash from the contract for the returned page (default: false)
+   */
+  enrich?: boolean;
+
+  /**
+   * Number of tokens to skip, in tokenId order (default: 0)
+   */
+  offset?: number;
+
+  /**
+   * Maximum number of tokens to return (default: 100)
+   */
+  limit?: number;
+}
+
+/**
+ * Token of a DDCNFT collection, derived from its Transfer events
+ */
+export interface TokenListEntry {
+  tokenId: bigint;
+  destroyed: boolean;
+  mintedBlock: number;
+  mintTransactionHash: string;
+
+  /**
+   * Current holder key hash (with `enrich`, live tokens only)
+   */
+  holderHash?: string;
+
+  /**
+   * Token URI (with `enrich`, live tokens only)
+   */
+  tokenURI?: string;
+}
+
+/**
+ * Page of DDCNFTManager.listTokens results
+ */
+export interface TokenPage {
+  tokens: TokenListEntry[];
+
+  /**
+   * Number of tokens matching the filter, across all pages
+   */
+  total: number;
+  offset: number;
+  limit: number;
+  hasMore: boolean;
+}
+
+/**
+ * Fee settings for speedUpTransaction / cancelTransaction
+ * By default fees are the larger of the original fees bumped by `feeBumpPercent` and current network fees
+ */
+export interface ReplacementOptions {
+  /**
+   * Percentage added to the original transaction's fees (default: 20, minimum: 10)
+   */
+  feeBumpPercent?: number;
+
+  /**
+   * Explicit max fee per gas for EIP-1559 transactions (wei)
+   */
+  maxFeePerGas?: bigint;
+
+  /**
+   * Explicit max priority fee per gas for EIP-1559 transactions (wei)
+   */
+  maxPriorityFeePerGas?: bigint;
+
+  /**
+   * Explicit gas price for legacy transactions (wei)
+   */
+  gasPrice?: bigint;
+}
+
+/**
+ * Replacement transaction broadcast by speedUpTransaction / cancelTransaction
+ */
+export interface ReplacementResult {
+  /**
+   * Hash of the replacement transaction
+   */
+  transactionHash: string;
+
+  /**
+   * Hash of the transaction being replaced
+   */
+  replacedHash: string;
+
+  /**
+   * Shared nonce of both transactions
+   */
+  nonce: number;
+  maxFeePerGas: bigint | null;
+  maxPriorityFeePerGas: bigint | null;
+  gasPrice: bigint | null;
+}
+
+/**
+ * Outcome of a single item in a batch operation
+ */
+export interface BatchItemResult<TItem, TResult> {
+  /**
+   * Position of the item in the input array
+   */
+  index: number;
+
+  /**
+   * Input item
+   */
+  item: TItem;
+
+  /**
+   * fulfilled: succeeded, rejected: failed, skipped: not started because the batch stopped early
+   */
+  status: 'fulfilled' | 'rejected' | 'skipped';
+
+  /**
+   * Result of the operation (fulfilled items only)
+   */
+  result?: TResult;
+
+  /**
+   * Failure reason (rejected items only)
+   */
+  error?: SDKError;
+}
+
+/**
+ * Result of a batch operation, in input order
+ */
+export interface BatchResult<TItem, TResult> {
+  results: BatchItemResult<TItem, TResult>[];
+  succeeded: number;
+  failed: number;
+  skipped: number;
+}
+
+/**
+ * Single token to mint in a batch
+ */
+export interface MintBatchItem {
+  /**
+   * Token ID to mint (must be non-zero and unique within the batch)
+   */
+  tokenId: bigint;
+
+  /**
+   * Key hash (bytes32, keccak256 hash of the token's key)
+   */
+  keyHash: string;
+}
+
+/**
+ * Options for batch minting
+ * Transaction settings (confirmations, timeout, simulate, strict) apply to every item
+ */
+export interface MintBatchOptions extends TransactionConfig {
+  /**
+   * Maximum number of mint transactions in flight (default: 5)
+   */
+  concurrency?: number;
+
+  /**
+   * Stop starting new mints after the first failure (default: false)
+   * Mints already in flight still complete; the rest are reported as skipped
+   */
+  stopOnError?: boolean;
+
+  /**
+   * Called after each item settles
+   */
+  onProgress?: (
+    result: BatchItemResult<MintBatchItem, MintResult>,
+    settled: number,
+    total: number
+  ) => void;
+}
+
+/**
+ * Raw roster row as read from a CSV/JSON roster (before normalization)
+ * Each row needs a tokenId and either a wallet address or a precomputed addressHash
+ */
+export interface RosterRow {
+  tokenId: string | number | bigint;
+  address?: string;
+  addressHash?: string;
+}
+
+/**
+ * Roster row after validation and address hashing
+ */
+export interface RosterEntry {
+  /**
+   * Source line (CSV, header is line 1) or 1-based array position (JSON)
+   */
+  line: number;
+  tokenId: bigint;
+
+  /**
+   * Checksummed wallet address, if the row provided one
+   */
+  address?: string;
+
+  /**
+   * Lowercase bytes32 address hash that will be minted
+   */
+  addressHash: string;
+}
+
+/**
+ * Problem found while validating a roster row
+ */
+export interface RosterIssue {
+  line: number;
+
+  /**
+   * tokenId of the row as written in the roster
+   */
+  tokenId: string;
+  field: 'tokenId' | 'address' | 'addressHash' | 'row';
+  message: string;
+  value?: string;
+}
+
+/**
+ * Options for MembershipManager.importRoster
+ * Transaction settings (confirmations, timeout, simulate, strict) apply to every mint
+ */
+export interface RosterImportOptions extends TransactionConfig {
+  /**
+   * Roster format when passing a string (default: detected from the content)
+   */
+  format?: 'csv' | 'json';
+
+  /**
+   * Maximum number of mint transactions in flight (default: 5)
+   */
+  concurrency?: number;
+
+  /**
+   * Stop starting new mints after the first failure (default: false)
+   */
+  stopOnError?: boolean;
+
+  /**
+   * Mint the valid rows and report invalid ones instead of rejecting the whole roster (default: false)
+   */
+  skipInvalid?: boolean;
+
+  /**
+   * Salt for hashing roster addresses (default: the manager's `memberHash.salt`)
+   */
+  salt?: string;
+
+  /**
+   * Called after each row's mint settles
+   */
+  onProgress?: (row: RosterRowReport, settled: number, total: number) => void;
+}
+
+/**
+ * Outcome of a single roster row
+ */
+export interface RosterRowReport {
+  line: number;
+  tokenId: string;
+  address?: string;
+  addressHash?: string;
+
+  /**
+   * minted: succeeded, failed: mint rejected, skipped: not started (stopOnError), invalid: failed validation
+   */
+  status: 'minted' | 'failed' | 'skipped' | 'invalid';
+  transactionHash?: string;
+  blockNumber?: number;
+  errorCode?: string;
+  errorMessage?: string;
+}
+
+/**
+ * Result report of a roster import, suitable for handing back to operators
+ * Use formatRosterReport() to render it as CSV or JSON
+ */
+export interface RosterImportReport {
+  contractAddress: string;
+  startedAt: string;
+  finishedAt: string;
+  total: number;
+  minted: number;
+  failed: number;
+  skipped: number;
+  invalid: number;
+  rows: RosterRowReport[];
+}
+
+/**
+ * Member hashes added, removed and retained between two membership states
+ */
+export interface MembershipDiff {
+  added: string[];
+  removed: string[];
+  retained: string[];
+}
+
+/**
+ * Difference between two membership snapshots
+ */
+export interface SnapshotDiff extends MembershipDiff {
+  fromSnapshotId: bigint;
+  toSnapshotId: bigint;
+}
+
+/**
+ * Difference between the latest snapshot and the live membership
+ */
+export interface LiveSnapshotDiff extends MembershipDiff {
+  snapshotId: bigint;
+
+  /**
+   * Block the live membership was reconstructed at
+   */
+  blockNumber: number;
+}
+
+/**
+ * Current members reconstructed from Transfer events
+ */
+export interface LiveMembers {
+  /**
+   * Address hashes of live tokens (lowercase, in mint order)
+   */
+  members: string[];
+
+  /**
+   * Token ID of each live member
+   */
+  tokens: Array<{ tokenId: bigint; addressHash: string }>;
+  blockNumber: number;
+}
+
+/**
+ * Identifies what a membership Merkle tree commits to (stored in exports and proofs)
+ */
+export interface MerkleTreeContext {
+  snapshotId?: bigint;
+  contractAddress?: string;
+  chainId?: number;
+}
+
+/**
+ * Inclusion proof of one member hash (JSON-safe)
+ */
+export interface MerkleProof {
+  /**
+   * Member hash being proven (lowercase)
+   */
+  memberHash: string;
+
+  /**
+   * keccak256(0x00 ‖ memberHash)
+   */
+  leaf: string;
+
+  /**
+   * Sibling hashes from the leaf up to the root
+   */
+  proof: string[];
+  root: string;
+
+  /**
+   * Snapshot ID as a decimal string
+   */
+  snapshotId?: string;
+  contractAddress?: string;
+  chainId?: number;
+}
+
+/**
+ * JSON export of a membership Merkle tree (format `ddc-membership-merkle-v1`)
+ */
+export interface MembershipMerkleTreeJSON {
+  format: 'ddc-membership-merkle-v1';
+  root: string;
+  leafCount: number;
+
+  /**
+   * Snapshot ID as a decimal string
+   */
+  snapshotId?: string;
+  contractAddress?: string;
+  chainId?: number;
+
+  /**
+   * Member hashes in leaf order (lowercase, sorted ascending, no duplicates)
+   */
+  members: string[];
+}
+
+/**
+ * Options for getFactoryContracts
+ */
+export interface FactoryContractsOptions {
+  /**
+   * Factory to enumerate (default: the manager's factory)
+   */
+  factoryAddress?: string;
+
+  /**
+   * Number of contracts to skip, in deployment order (default: 0)
+   */
+  offset?: number;
+
+  /**
+   * Maximum number of contracts to return (default: 50)
+   */
+  limit?: number;
+
+  /**
+   * Look up each contract's deployment block from the factory's deployment events (default: true)
+   */
+  includeDeploymentBlock?: boolean;
+
+  /**
+   * First block to scan for deployment events (default: 0; use the factory's deployment block)
+   */
+  fromBlock?: number;
+
+  /**
+   * Initial eth_getLogs window, halved automatically on RPC rejection
+   */
+  maxBlockRange?: number;
+}
+
+/**
+ * Contract deployed by a factory, as read from the chain
+ */
+export interface FactoryContractInfo {
+  /**
+   * Position in the factory's deployment list
+   */
+  index: number;
+  address: string;
+
+  /**
+   * Contract name, symbol and owner (undefined if the read failed, see `error`)
+   */
+  name?: string;
+  symbol?: string;
+  owner?: string;
+
+  /**
+   * Block and transaction of the factory deployment event
+   */
+  deploymentBlock?: number;
+  deploymentTransactionHash?: string;
+
+  /**
+   * Why some fields could not be read
+   */
+  error?: string;
+}
+
+/**
+ * Page of getFactoryContracts results
+ */
+export interface FactoryContractPage {
+  contracts: FactoryContractInfo[];
+
+  /**
+   * Number of contracts deployed by the factory
+   */
+  total: number;
+  offset: number;
+  limit: number;
+  hasMore: boolean;
+}
+
+/**
+ * Options for recoverDeployedContracts
+ */
+export interface RecoverContractsOptions {
+  /**
+   * Factory to scan (default: the manager's factory)
+   */
+  factoryAddress?: string;
+
+  /**
+   * Which deployments count as the wallet's (default: 'either')
+   * - 'sender': the wallet sent the deployment transaction
+   * - 'owner': the wallet currently owns the contract
+   */
+  match?: 'sender' | 'owner' | 'either';
+
+  /**
+   * Report newly recovered contracts to the backend again (default: false)
+   */
+  reportToBackend?: boolean;
+
+  /**
+   * First block to scan for deployment events (default: 0; use the factory's deployment block)
+   * Scans are cached per factory; a smaller fromBlock than an earlier call scans the missing blocks
+   */
+  fromBlock?: number;
+
+  /**
+   * Initial eth_getLogs window, halved automatically on RPC rejection
+   */
+  maxBlockRange?: number;
+}
+
+/**
+ * Factory deployment attributed to the wallet by recoverDeployedContracts
+ */
+export interface RecoveredContract {
+  address: string;
+  name: string;
+  symbol: string;
+  deploymentBlock: number;
+  deploymentTransactionHash: string;
+
+  /**
+   * Why the deployment was attributed to the wallet
+   */
+  matchedBy: Array<'sender' | 'owner'>;
+
+  /**
+   * Whether the contract was missing from getAllDeployedAddresses() before recovery
+   */
+  recovered: boolean;
+
+  /**
+   * Backend report outcome (only with `reportToBackend` for recovered contracts)
+   */
+  reported?: boolean;
+  reportError?: string;
+}
+
+/**
+ * Outcome of recoverDeployedContracts
+ */
+export interface RecoveryResult {
+  /**
+   * Every factory deployment attributed to the wallet, in deployment order
+   */
+  contracts: RecoveredContract[];
+
+  /**
+   * Addresses added to getAllDeployedAddresses()
+   */
+  recovered: string[];
+
+  /**
+   * Factory deployments scanned
+   */
+  scanned: number;
+}
+
+/**
+ * Async key-value storage used to persist SDK state (indexer checkpoints, ...)
+ * Values must be JSON-serializable (store bigint values as strings)
+ */
+export interface StorageAdapter {
+  get<T = unknown>(key: string): Promise<T | undefined>;
+  set<T = unknown>(key: string, value: T): Promise<void>;
+  delete(key: string): Promise<void>;
+
+  /**
+   * Stored keys, optionally only those starting with `prefix`
+   */
+  keys(prefix?: string): Promise<string[]>;
+}
+
+/**
+ * Kind of member identity hashed into a membership addressHash
+ */
+export type MemberIdentityType = 'address' | 'email' | 'phone' | 'custom';
+
+/**
+ * Options for getMemberHash
+ */
+export interface MemberHashOptions {
+  /**
+   * Identity type (default: 'address')
+   */
+  type?: MemberIdentityType;
+
+  /**
+   * Secret salt mixed into the hash (default: none)
+   * Strongly recommended for emails and phone numbers, whose unsalted hashes can be brute-forced
+   */
+  salt?: string;
+}
+
+/**
+ * Settings for KeyVault
+ */
+export interface KeyVaultOptions {
+  /**
+   * Backend the encrypted entries are stored in
+   */
+  storage: StorageAdapter;
+
+  /**
+   * Prefix of every storage key, so one backend can hold several vaults (default: 'ddc-key-vault')
+   */
+  namespace?: string;
+
+  /**
+   * PBKDF2-SHA256 iterations for a new vault (default: 600000)
+   * Existing vaults and backups keep the iteration count they were created with
+   */
+  iterations?: number;
+}
+
+/**
+ * Password-derivation parameters of a vault
+ */
+export interface VaultKdfParams {
+  name: 'PBKDF2';
+  hash: 'SHA-256';
+  iterations: number;
+
+  /**
+   * Random salt (hex)
+   */
+  salt: string;
+}
+
+/**
+ * AES-256-GCM ciphertext (hex)
+ */
+export interface VaultCiphertext {
+  iv: string;
+  ciphertext: string;
+}
+
+/**
+ * One stored key, encrypted and bound to its contract and token
+ */
+export interface VaultEntry extends VaultCiphertext {
+  /**
+   * Contract address (lowercase)
+   */
+  contractAddress: string;
+
+  /**
+   * Token ID as a decimal string
+   */
+  tokenId: string;
+
+  /**
+   * Last write (ms since epoch)
+   */
+  updatedAt: number;
+}
+
+/**
+ * Encrypted backup produced by KeyVault.exportBackup() (format `ddc-key-vault-v1`)
+ */
+export interface VaultBackup {
+  format: 'ddc-key-vault-v1';
+  kdf: VaultKdfParams;
+
+  /**
+   * Encrypted marker used to check the password before any entry is decrypted
+   */
+  verifier: VaultCiphertext;
+  entries: VaultEntry[];
+  exportedAt: number;
+}
+
+/**
+ * Result of KeyVault.importBackup()
+ */
+export interface VaultImportResult {
+  imported: number;
+
+  /**
+   * Entries already in the vault (kept unless `overwrite` is set)
+   */
+  skipped: number;
+}
+
+/**
+ * Anything that can return the stored key of a token, such as KeyVault
+ */
+export interface KeyVaultReader {
+  getKey(contractAddress: string, tokenId: bigint): Promise<string>;
+}
+
+/**
+ * Reference to a key held in a vault
+ */
+export interface VaultKeyReference {
+  vault: KeyVaultReader;
+
+  /**
+   * Contract the key is stored under (default: the manager's current contract)
+   */
+  contractAddress?: string;
+
+  /**
+   * Token the key is stored under (default: the token being destroyed or transferred)
+   */
+  tokenId?: bigint;
+}
+
+/**
+ * Token key derived from a signature by the manager's wallet (see deriveWalletKey)
+ *
+ * The wallet signs EIP-712 typed data bound to the chain, the contract, the tokenId and
+ * `index`; the key is the keccak256 of the signature, so any device holding the wallet can
+ * recompute it and nothing has to be stored.
+ *
+ * Security trade-offs:
+ * - The signature IS the key. Any site that gets the wallet to sign the same typed data
+ *   (domain "DDC Market Token Key") can transfer or destroy the token; only sign it in apps
+ *   you trust
+ * - Every wallet-derived key falls with the wallet: a leaked seed phrase exposes all of them
+ * - Derivation needs deterministic signatures (RFC 6979, as in software wallets and most
+ *   hardware wallets). MPC and smart-contract wallets may sign differently each time, which
+ *   would make the key unrecoverable; `verifyDeterminism` checks this by signing twice
+ * - `transfer()` and `destroy()` send the plaintext key in calldata. Once a derived key has
+ *   been used it is public, so never make it a holder key again; derive the next `index`
+ *   instead when a token comes back to the same wallet
+ * - Only the wallet holder can derive the key: to send a token to a wallet-derived key, the
+ *   recipient computes the hash (getWalletKeyHash) and shares it
+ */
+export interface WalletKeyReference {
+  wallet: true;
+
+  /**
+   * Contract the key is bound to (default: the manager's current contract)
+   */
+  contractAddress?: string;
+
+  /**
+   * Token the key is bound to (default: the token being minted, destroyed or transferred)
+   */
+  tokenId?: bigint;
+
+  /**
+   * Key generation for the same token (default: 0)
+   */
+  index?: number;
+
+  /**
+   * Sign twice and fail with NON_DETERMINISTIC_SIGNATURE if the signatures differ (default: true)
+   * Browser wallets then ask for two signatures
+   */
+  verifyDeterminism?: boolean;
+}
+
+/**
+ * Plaintext holder key, a reference to one in a vault, or a wallet-derived key
+ */
+export type KeySource = string | VaultKeyReference | WalletKeyReference;
+
+/**
+ * Current state of a token as maintained by ContractIndexer
+ */
+export interface IndexedToken {
+  tokenId: bigint;
+
+  /**
+   * Current holder hash (key hash for DDCNFT, address hash for Membership; null once destroyed)
+   */
+  holderHash: string | null;
+  destroyed: boolean;
+
+  /**
+   * Last tokenURI read for the token (DDCNFT with `trackTokenURIs` only)
+   */
+  tokenURI?: string;
+
+  /**
+   * Mint block and transaction (undefined if the token was minted before the indexer's fromBlock)
+   */
+  mintedBlock?: number;
+  mintTransactionHash?: string;
+
+  /**
+   * Block of the last event that changed the token
+   */
+  updatedBlock: number;
+}
+
+/**
+ * ContractIndexer settings
+ */
+export interface ContractIndexerOptions {
+  /**
+   * Where the index and its checkpoint are persisted (default: in-memory)
+   */
+  storage?: StorageAdapter;
+
+  /**
+   * First block to index when there is no checkpoint (default: 0; use the deployment block)
+   */
+  fromBlock?: number;
+
+  /**
+   * Only index blocks at least this many blocks below the chain head (default: 0)
+   */
+  confirmations?: number;
+
+  /**
+   * Blocks processed between two checkpoints (default: 10000)
+   */
+  checkpointInterval?: number;
+
+  /**
+   * Initial eth_getLogs window (default: checkpointInterval), halved automatically on RPC rejection
+   */
+  maxBlockRange?: number;
+
+  /**
+   * Read tokenURI for tokens touched by each sync (DDCNFT only, default: true)
+   */
+  trackTokenURIs?: boolean;
+
+  /**
+   * Called after every checkpoint is saved
+   */
+  onProgress?: (checkpoint: IndexerCheckpoint) => void;
+}
+
+/**
+ * Last block processed by ContractIndexer
+ */
+export interface IndexerCheckpoint {
+  blockNumber: number;
+  blockHash: string;
+}
+
+/**
+ * Outcome of one ContractIndexer.sync() call
+ */
+export interface IndexerSyncResult {
+  fromBlock: number;
+  toBlock: number;
+  eventsProcessed: number;
+  tokensUpdated: number;
+
+  /**
+   * Whether the stored checkpoint was no longer on the chain and the index was rebuilt
+   */
+  reorged: boolean;
+}
+
+/**
+ * Gas and fee estimate for a contract write
+ */
+export interface GasEstimate {
+  /**
+   * Estimated gas limit
+   */
+  gasLimit: bigint;
+
+  /**
+   * Legacy gas price (wei), null if the network does not report it
+   */
+  gasPrice: bigint | null;
+
+  /**
+   * EIP-1559 max fee per gas (wei), null on legacy networks
+   */
+  maxFeePerGas: bigint | null;
+
+  /**
+   * EIP-1559 max priority fee per gas (wei), null on legacy networks
+   */
+  maxPriorityFeePerGas: bigint | null;
+
+  /**
+   * Maximum total cost in wei (gasLimit * (maxFeePerGas ?? gasPrice))
+   */
+  totalCost: bigint;
+
+  /**
+   * Total cost formatted in the native token unit (e.g. "0.000123")
+   */
+  formattedCost: string;
+
+  /**
+   * Native token symbol from DDCChainConfig.token_symbol
+   */
+  tokenSymbol: string;
+}
+
+/**
+ * Gas estimators exposed as `DDCNFTManager.estimate`
+ */
+export interface DDCNFTGasEstimator {
+  mint(tokenId: bigint, keyHash: string): Promise<GasEstimate>;
+  transfer(toHash: string, tokenId: bigint, key: KeySource): Promise<GasEstimate>;
+  destroy(tokenId: bigint, key: KeySource): Promise<GasEstimate>;
+  setTokenURI(tokenId: bigint, uri: string): Promise<GasEstimate>;
+}
+
+/**
+ * Gas estimators exposed as `MembershipManager.estimate`
+ */
+export interface MembershipGasEstimator {
+  createSnapshot(): Promise<GasEstimate>;
+  mintMembership(tokenId: bigint, addressHash: string): Promise<GasEstimate>;
+  destroyMembership(tokenId: bigint, addressHash: string): Promise<GasEstimate>;
+}
+
+/**
+ * Per-call options accepted by every write method
+ * Lifecycle hooks are invoked in order as the transaction progresses.
+ * Errors thrown from a hook are logged and never interrupt the transaction flow.
+ * `confirmations`, `timeout` and `simulate` override the manager-level TransactionConfig.
+ */
+export interface TransactionOptions extends TransactionConfig {
+  /**
+   * Called as soon as the transaction is signed and broadcast
+   */
+  onSubmitted?: (transactionHash: string, transaction: TransactionResponse) => void;
+  /**
+   * Called when the transaction is included in a block
+   */
+  onMined?: (receipt: TransactionReceipt) => void;
+  /**
+   * Called when the transaction reaches the required number of confirmations
+   */
+  onConfirmed?: (receipt: TransactionReceipt) => void;
+  /**
+   * Called with the error thrown by the write method, at any stage
+   */
+  onError?: (error: Error) => void;
+}
+
+/**
+ * Decoded contract revert
+ */
+export interface DecodedRevert {
+  /**
+   * Error name ('Error' for require/revert messages, otherwise the custom error name)
+   */
+  name: string;
+
+  /**
+   * Error signature (e.g. 'Error(string)')
+   */
+  signature: string;
+
+  /**
+   * 4-byte error selector
+   */
+  selector: string;
+
+  /**
+   * Decoded error arguments keyed by parameter name
+   */
+  args: Record<string, unknown>;
+
+  /**
+   * Revert message for `Error(string)` reverts
+   */
+  reason?: string;
+
+  /**
+   * Solidity panic code for `Panic(uint256)` reverts (e.g. 0x11 for arithmetic overflow)
+   */
+  panicCode?: number;
 }
 
 /**
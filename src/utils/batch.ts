@@ -0,0 +1,85 @@
+import { SDKError } from '../types';
+import type { BatchItemResult, BatchResult } from '../types';
+
+/**
+ * Run an async task for every item with bounded concurrency
+ * Failures are recorded per item instead of rejecting the whole batch
+ *
+ * @param items - Items to process (results keep the input order)
+ * @param task - Async task to run for each item
+ * @param options.concurrency - Maximum number of tasks in flight (default: 1)
+ * @param options.stopOnError - Skip items that have not started yet after the first failure (default: false)
+ * @param options.onSettled - Called after each item settles with the number of settled items so far
+ * @returns Per-item results with success/failure counts
+ *
+ * @example
+ * ```typescript
+ * const batch = await runBatch(items, (item) => manager.mint(item.tokenId, item.keyHash), {
+ *   concurrency: 5,
+ * });
+ * batch.results.filter((r) => r.status === 'rejected').forEach((r) => console.log(r.error?.code));
+ * ```
+ */
+export async function runBatch<TItem, TResult>(
+  items: TItem[],
+  task: (item: TItem, index: number) => Promise<TResult>,
+  options: {
+    concurrency?: number;
+    stopOnError?: boolean;
+    onSettled?: (result: BatchItemResult<TItem, TResult>, settled: number, total: number) => void;
+  } = {}
+): Promise<BatchResult<TItem, TResult>> {
+  const { concurrency = 1, stopOnError = false, onSettled } = options;
+
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new SDKError('concurrency must be a positive integer', 'INVALID_PARAMETER', {
+      concurrency,
+    });
+  }
+
+  const results: BatchItemResult<TItem, TResult>[] = items.map((item, index) => ({
+    index,
+    item,
+    status: 'skipped',
+  }));
+  let next = 0;
+  let settled = 0;
+  let stopped = false;
+
+  const worker = async (): Promise<void> => {
+    while (!stopped && next < items.length) {
+      const index = next++;
+      const entry = results[index];
+
+      try {
+        entry.result = await task(items[index], index);
+        entry.status = 'fulfilled';
+      } catch (error: any) {
+        entry.status = 'rejected';
+        entry.error =
+          error instanceof SDKError
+            ? error
+            : new SDKError(error?.message || String(error), 'BATCH_ITEM_ERROR', { error });
+        if (stopOnError) stopped = true;
+      }
+
+      settled++;
+      if (onSettled) {
+        try {
+          onSettled(entry, settled, items.length);
+        } catch {
+          // Progress callbacks must not break the batch
+        }
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, () => worker()));
+
+  return {
+    results,
+    succeeded: results.filter((r) => r.status === 'fulfilled').length,
+    failed: results.filter((r) => r.status === 'rejected').length,
+    skipped: results.filter((r) => r.status === 'skipped').length,
+  };
+}
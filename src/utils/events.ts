@@ -0,0 +1,107 @@
+import { Interface, InterfaceAbi, Log, Result } from 'ethers';
+import type {
+  ContractEventMeta,
+  OwnershipTransferredEvent,
+  PausedEvent,
+  SnapshotCreatedEvent,
+  TokenDestroyedEvent,
+  TransferEvent,
+} from '../types';
+
+/**
+ * Decoded fields of each supported contract event (without log metadata)
+ * Arguments are read by position: DDCNFT and Membership name their Transfer arguments differently
+ */
+export interface ContractEventFields {
+  Transfer: Omit<TransferEvent, keyof ContractEventMeta>;
+  TokenDestroyed: Omit<TokenDestroyedEvent, keyof ContractEventMeta>;
+  Paused: Omit<PausedEvent, keyof ContractEventMeta>;
+  Unpaused: Omit<PausedEvent, keyof ContractEventMeta>;
+  SnapshotCreated: Omit<SnapshotCreatedEvent, keyof ContractEventMeta>;
+  OwnershipTransferred: Omit<OwnershipTransferredEvent, keyof ContractEventMeta>;
+}
+
+export type ContractEventName = keyof ContractEventFields;
+
+/**
+ * Decoded contract event with its name (narrow on `name` to get typed fields)
+ */
+export type DecodedContractEvent = {
+  [K in ContractEventName]: { name: K; event: ContractEventFields[K] & ContractEventMeta };
+}[ContractEventName];
+
+const EVENT_DECODERS: {
+  [K in ContractEventName]: (args: Result) => ContractEventFields[K];
+} = {
+  Transfer: (args) => ({ from: args[0], to: args[1], tokenId: BigInt(args[2]) }),
+  TokenDestroyed: (args) => ({ tokenId: BigInt(args[0]), ownerHash: args[1] }),
+  Paused: (args) => ({ account: args[0] }),
+  Unpaused: (args) => ({ account: args[0] }),
+  SnapshotCreated: (args) => ({ snapshotId: BigInt(args[0]) }),
+  OwnershipTransferred: (args) => ({ previousOwner: args[0], newOwner: args[1] }),
+};
+
+/**
+ * Decode the arguments of a supported contract event
+ *
+ * @param name - Event name
+ * @param args - Event arguments as decoded by ethers
+ * @returns Typed event fields (uint256 as bigint, bytes32 as hex string)
+ */
+export function decodeEventArgs<K extends ContractEventName>(
+  name: K,
+  args: Result
+): ContractEventFields[K] {
+  return EVENT_DECODERS[name](args);
+}
+
+/**
+ * Extract block/transaction metadata from a log
+ */
+export function getEventMeta(log: Log): ContractEventMeta {
+  return {
+    contractAddress: log.address,
+    blockNumber: log.blockNumber,
+    blockHash: log.blockHash,
+    transactionHash: log.transactionHash,
+    logIndex: log.index,
+  };
+}
+
+/**
+ * Decode a raw log into a typed contract event
+ *
+ * @param abi - ABI of the contract that emitted the log
+ * @param log - Raw log (from a receipt, getLogs or a subscription)
+ * @returns Event name and typed fields with metadata, or null if the log is not a supported event
+ *
+ * @example
+ * ```typescript
+ * for (const log of receipt.logs) {
+ *   const decoded = decodeContractLog(DDCNFT_ABI, log);
+ *   if (decoded?.name === 'Transfer') console.log(decoded.event.tokenId);
+ * }
+ * ```
+ */
+export function decodeContractLog(
+  abi: InterfaceAbi | Interface,
+  log: Log
+): DecodedContractEvent | null {
+  const contractInterface = abi instanceof Interface ? abi : new Interface(abi);
+
+  let parsed;
+  try {
+    parsed = contractInterface.parseLog({ topics: [...log.topics], data: log.data });
+  } catch {
+    return null;
+  }
+  if (!parsed || !(parsed.name in EVENT_DECODERS)) {
+    return null;
+  }
+
+  const name = parsed.name as ContractEventName;
+  return {
+    name,
+    event: { ...decodeEventArgs(name, parsed.args), ...getEventMeta(log) },
+  } as DecodedContractEvent;
+}
@@ -2,6 +2,16 @@ export * from './contract';
 export * from './network';
 export * from './wallet';
 export * from './auth';
+export * from './revert';
+export * from './nonce';
+export * from './batch';
+export * from './roster';
+export * from './events';
+export * from './logs';
+export * from './snapshot';
+export * from './merkle';
+export * from './keys';
+export * from './member';
 
 // Re-export provider creation utilities for convenience
 export { createJsonRpcProvider, resolveProvider } from './wallet';
@@ -0,0 +1,385 @@
+import {
+  Mnemonic,
+  Signature,
+  getAddress,
+  getBytes,
+  hexlify,
+  keccak256,
+  randomBytes,
+  sha256,
+} from 'ethers';
+import type { Signer, TypedDataDomain, TypedDataField } from 'ethers';
+import { SDKError } from '../types';
+import type { GenerateKeyOptions, KeyPolicy, KeyStrength, ParsedKey } from '../types';
+
+/** Crockford base32: no I, L, O or U, so keys survive being read aloud or handwritten */
+const BASE32_ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+const BASE32_GROUP = 4;
+const BASE32_CHECKSUM_BYTES = 2;
+const KEY_STRENGTHS = [128, 160, 192, 224, 256];
+
+const DEFAULT_KEY_POLICY: Required<KeyPolicy> = {
+  minBits: 128,
+  allowCustomKeys: true,
+};
+
+/** Counted as a single character when rating custom keys */
+const COMMON_KEY_WORDS = [
+  'password',
+  'passwort',
+  'qwerty',
+  'azerty',
+  'letmein',
+  'welcome',
+  'admin',
+  'secret',
+  'iloveyou',
+  'monkey',
+  'dragon',
+];
+
+const WALLET_KEY_TYPES: Record<string, TypedDataField[]> = {
+  TokenKey: [
+    { name: 'purpose', type: 'string' },
+    { name: 'tokenId', type: 'uint256' },
+    { name: 'index', type: 'uint32' },
+  ],
+};
+
+/** Shown by the wallet next to the signature request */
+const WALLET_KEY_PURPOSE =
+  'Derive the key of this token. Anyone holding this signature can transfer or destroy the token.';
+
+/**
+ * Generate a holder key from the platform CSPRNG
+ *
+ * - `words` (default): BIP39 English mnemonic, e.g. 12 words for 128 bits; the last word
+ *   carries the BIP39 checksum
+ * - `base32`: Crockford base32 in dash-separated groups of 4, with a 16-bit checksum
+ *
+ * The returned string is the canonical form that is hashed on-chain, so store it exactly as
+ * returned (or run user input through parseKey() before using it)
+ *
+ * @param options - Encoding and entropy (default: words, 128 bits)
+ * @returns Canonical key string
+ *
+ * @example
+ * ```typescript
+ * const key = generateKey(); // "legal winner thank year wave sausage worth useful legal winner thank yellow"
+ * await ddcnftManager.mint(1n, getKeyHash(key));
+ * ```
+ */
+export function generateKey(options: GenerateKeyOptions = {}): string {
+  const { format = 'words', strength = 128 } = options;
+  if (!KEY_STRENGTHS.includes(strength)) {
+    throw new SDKError(
+      `Key strength must be one of ${KEY_STRENGTHS.join(', ')} bits`,
+      'INVALID_PARAMETER',
+      { strength }
+    );
+  }
+
+  const entropy = randomBytes(strength / 8);
+  if (format === 'words') return Mnemonic.entropyToPhrase(entropy);
+  if (format === 'base32') return encodeBase32Key(entropy);
+
+  throw new SDKError(`Unsupported key format: ${format}`, 'INVALID_PARAMETER', { format });
+}
+
+/**
+ * Parse and validate a key produced by generateKey()
+ * Input is normalized first: case, extra whitespace and (for base32) dashes, spaces and the
+ * look-alike characters I, L and O are forgiven
+ *
+ * @param input - Key as typed or pasted by the user
+ * @returns Canonical key, its format and entropy
+ * @throws SDKError (INVALID_KEY_FORMAT) if the input is neither encoding
+ * @throws SDKError (INVALID_KEY_CHECKSUM) if the encoding is recognized but the checksum fails
+ *
+ * @example
+ * ```typescript
+ * const { key } = parseKey('  Legal winner THANK year wave sausage worth useful legal winner thank yellow ');
+ * await ddcnftManager.destroy(1n, key);
+ * ```
+ */
+export function parseKey(input: string): ParsedKey {
+  if (typeof input !== 'string' || !input.trim()) {
+    throw new SDKError('Key must be a non-empty string', 'INVALID_KEY_FORMAT');
+  }
+
+  const words = input.trim().toLowerCase().split(/\s+/);
+  if (words.length === 1 || !words.every((word) => /^[a-z]+$/.test(word))) {
+    return parseBase32Key(input);
+  }
+
+  try {
+    return parseWordsKey(words);
+  } catch (error: any) {
+    // Base32 groups separated by spaces can consist of letters only
+    if (error?.code !== 'INVALID_KEY_FORMAT') throw error;
+    try {
+      return parseBase32Key(input);
+    } catch {
+      throw error;
+    }
+  }
+}
+
+/**
+ * Estimate the entropy of a key
+ * Keys from generateKey() report their exact entropy; other strings get a character-pool
+ * estimate (characters × log2(pool size)) in which a common word, a repeat of an earlier part of
+ * the key or a run such as "abcd" / "4321" counts as one character. It is still an upper bound
+ * for human-chosen keys
+ *
+ * @param key - Key to rate
+ * @param policy - Policy to check against (default: 128 bits, custom keys allowed)
+ * @returns Format, estimated bits and whether the policy accepts the key
+ */
+export function estimateKeyStrength(key: string, policy: KeyPolicy = {}): KeyStrength {
+  const { minBits, allowCustomKeys } = { ...DEFAULT_KEY_POLICY, ...policy };
+
+  let strength: Omit<KeyStrength, 'acceptable'>;
+  try {
+    const parsed = parseKey(key);
+    strength = { format: parsed.format, bits: parsed.bits };
+  } catch {
+    strength = { format: 'custom', bits: estimateCustomKeyBits(key ?? '') };
+  }
+
+  return {
+    ...strength,
+    acceptable: strength.bits >= minBits && (allowCustomKeys || strength.format !== 'custom'),
+  };
+}
+
+/**
+ * Throw unless a key satisfies the policy
+ *
+ * @param key - Key to check
+ * @param policy - Minimum strength and whether custom keys are allowed
+ * @returns Key strength
+ * @throws SDKError (WEAK_KEY) if the key is rejected
+ */
+export function assertKeyPolicy(key: string, policy: KeyPolicy = {}): KeyStrength {
+  const strength = estimateKeyStrength(key, policy);
+  if (strength.acceptable) return strength;
+
+  const { minBits, allowCustomKeys } = { ...DEFAULT_KEY_POLICY, ...policy };
+  const reason =
+    !allowCustomKeys && strength.format === 'custom'
+      ? 'only keys from generateKey() are allowed'
+      : `about ${Math.floor(strength.bits)} bits of entropy, at least ${minBits} required`;
+  throw new SDKError(`Key is too weak: ${reason}`, 'WEAK_KEY', {
+    format: strength.format,
+    bits: strength.bits,
+    minBits,
+  });
+}
+
+/**
+ * EIP-712 typed data a wallet signs to derive a token key
+ * The domain binds the signature to one chain and contract, the message to one token and index
+ *
+ * @param params - Chain, contract, token and key index (default: 0)
+ * @returns Domain, types and value for `signer.signTypedData`
+ */
+export function getWalletKeyTypedData(params: {
+  chainId: bigint | number;
+  contractAddress: string;
+  tokenId: bigint;
+  index?: number;
+}): {
+  domain: TypedDataDomain;
+  types: Record<string, TypedDataField[]>;
+  value: Record<string, unknown>;
+} {
+  const { chainId, contractAddress, tokenId, index = 0 } = params;
+  if (!Number.isInteger(index) || index < 0 || index > 0xffffffff) {
+    throw new SDKError('index must be a uint32', 'INVALID_PARAMETER', { index });
+  }
+
+  return {
+    domain: {
+      name: 'DDC Market Token Key',
+      version: '1',
+      chainId,
+      verifyingContract: getAddress(contractAddress),
+    },
+    types: WALLET_KEY_TYPES,
+    value: { purpose: WALLET_KEY_PURPOSE, tokenId, index },
+  };
+}
+
+/**
+ * Derive a token key from a wallet signature (see WalletKeyReference for the trade-offs)
+ * The key is keccak256 of the normalized signature, encoded as a 256-bit base32 key
+ *
+ * @param signer - Wallet that signs the typed data
+ * @param params - Chain, contract, token and key index (default: 0)
+ * @param options - `verifyDeterminism` signs twice and compares (default: true)
+ * @returns Canonical key string
+ * @throws SDKError (NON_DETERMINISTIC_SIGNATURE) if the wallet signs the same data differently
+ * @throws SDKError (USER_REJECTED) if the signature request is rejected
+ *
+ * @example
+ * ```typescript
+ * const key = await deriveWalletKey(signer, { chainId: 1n, contractAddress, tokenId: 1n });
+ * const keyHash = getKeyHash(key); // same on every device with this wallet
+ * ```
+ */
+export async function deriveWalletKey(
+  signer: Signer,
+  params: Parameters<typeof getWalletKeyTypedData>[0],
+  options: { verifyDeterminism?: boolean } = {}
+): Promise<string> {
+  const { domain, types, value } = getWalletKeyTypedData(params);
+  const sign = async () => {
+    try {
+      return Signature.from(await signer.signTypedData(domain, types, value)).serialized;
+    } catch (error: any) {
+      if (error instanceof SDKError) throw error;
+      if (error?.code === 'ACTION_REJECTED' || error?.code === 4001) {
+        throw new SDKError('Signature request was rejected by user.', 'USER_REJECTED', {
+          error: error.message,
+        });
+      }
+      throw new SDKError(
+        `Failed to sign key derivation data: ${error?.message || error}`,
+        'KEY_DERIVATION_ERROR',
+        { error: error?.message || error }
+      );
+    }
+  };
+
+  const signature = await sign();
+  if (options.verifyDeterminism !== false && (await sign()) !== signature) {
+    throw new SDKError(
+      'The wallet does not sign deterministically, so a derived key could not be recovered later',
+      'NON_DETERMINISTIC_SIGNATURE'
+    );
+  }
+  return encodeBase32Key(getBytes(keccak256(signature)));
+}
+
+function parseWordsKey(words: string[]): ParsedKey {
+  const phrase = words.join(' ');
+  let entropy: string;
+  try {
+    entropy = Mnemonic.phraseToEntropy(phrase);
+  } catch (error: any) {
+    // Unknown words and bad lengths mean "not a mnemonic"; a bad last word means a typo
+    const checksumFailed = /checksum/i.test(error?.message || '');
+    throw new SDKError(
+      checksumFailed
+        ? 'Key words failed the checksum; check the words for typos'
+        : `Key is not a valid word key: ${error?.shortMessage || error?.message || error}`,
+      checksumFailed ? 'INVALID_KEY_CHECKSUM' : 'INVALID_KEY_FORMAT'
+    );
+  }
+
+  return { key: phrase, format: 'words', bits: getBytes(entropy).length * 8, entropy };
+}
+
+function encodeBase32Key(entropy: Uint8Array): string {
+  const payload = new Uint8Array([...entropy, ...checksumOf(entropy)]);
+
+  let bits = '';
+  for (const byte of payload) bits += byte.toString(2).padStart(8, '0');
+  bits = bits.padEnd(Math.ceil(bits.length / 5) * 5, '0');
+
+  let encoded = '';
+  for (let i = 0; i < bits.length; i += 5) {
+    encoded += BASE32_ALPHABET[parseInt(bits.slice(i, i + 5), 2)];
+  }
+  return encoded.match(new RegExp(`.{1,${BASE32_GROUP}}`, 'g'))!.join('-');
+}
+
+function parseBase32Key(input: string): ParsedKey {
+  const characters = input
+    .toUpperCase()
+    .replace(/[\s-]/g, '')
+    .replace(/O/g, '0')
+    .replace(/[IL]/g, '1');
+
+  const strength = KEY_STRENGTHS.find(
+    (bits) => Math.ceil((bits + BASE32_CHECKSUM_BYTES * 8) / 5) === characters.length
+  );
+  if (!strength || [...characters].some((char) => !BASE32_ALPHABET.includes(char))) {
+    throw new SDKError('Key is neither a word key nor a base32 key', 'INVALID_KEY_FORMAT');
+  }
+
+  let bits = '';
+  for (const char of characters) {
+    bits += BASE32_ALPHABET.indexOf(char).toString(2).padStart(5, '0');
+  }
+  const payloadBits = strength + BASE32_CHECKSUM_BYTES * 8;
+  const bytes = new Uint8Array(payloadBits / 8);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(bits.slice(i * 8, i * 8 + 8), 2);
+  }
+
+  const entropy = bytes.slice(0, strength / 8);
+  const checksum = bytes.slice(strength / 8);
+  if (/1/.test(bits.slice(payloadBits)) || hexlify(checksum) !== hexlify(checksumOf(entropy))) {
+    throw new SDKError(
+      'Key failed the checksum; check the characters for typos',
+      'INVALID_KEY_CHECKSUM'
+    );
+  }
+
+  return {
+    key: encodeBase32Key(entropy),
+    format: 'base32',
+    bits: strength,
+    entropy: hexlify(entropy),
+  };
+}
+
+function checksumOf(entropy: Uint8Array): Uint8Array {
+  return getBytes(sha256(entropy)).slice(0, BASE32_CHECKSUM_BYTES);
+}
+
+function estimateCustomKeyBits(key: string): number {
+  const characters = [...key];
+  if (new Set(characters).size <= 1) return 0;
+
+  let pool = 0;
+  if (/[a-z]/.test(key)) pool += 26;
+  if (/[A-Z]/.test(key)) pool += 26;
+  if (/[0-9]/.test(key)) pool += 10;
+  if (/[^a-zA-Z0-9]/.test(key)) pool += 33;
+  return countKeySymbols(key) * Math.log2(pool);
+}
+
+/**
+ * Number of characters that add entropy: common words, repeats of earlier substrings
+ * (3+ characters) and runs of consecutive characters each count once
+ */
+function countKeySymbols(key: string): number {
+  const lower = key.toLowerCase();
+  let symbols = 0;
+  for (let i = 0; i < key.length; symbols++) {
+    const word = COMMON_KEY_WORDS.find((candidate) => lower.startsWith(candidate, i));
+    let length = word ? word.length : 1;
+
+    for (let n = 3; i + n <= key.length && key.indexOf(key.slice(i, i + n)) < i; n++) {
+      length = Math.max(length, n);
+    }
+
+    const step = key.charCodeAt(i + 1) - key.charCodeAt(i);
+    if (step === 1 || step === -1) {
+      let run = 2;
+      while (
+        i + run < key.length &&
+        key.charCodeAt(i + run) - key.charCodeAt(i + run - 1) === step
+      ) {
+        run++;
+      }
+      if (run >= 3) length = Math.max(length, run);
+    }
+
+    i += length;
+  }
+  return symbols;
+}
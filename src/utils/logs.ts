@@ -0,0 +1,119 @@
+import { Filter, Log, Provider } from 'ethers';
+import { SDKError } from '../types';
+
+/**
+ * Whether an RPC error means the log query covered too many blocks or returned too many results
+ * Providers word this differently (Infura, Alchemy, QuickNode, geth, erigon, public RPCs...)
+ */
+function isRangeError(error: any): boolean {
+  const codes = [error?.error?.code, error?.info?.error?.code];
+  if (codes.includes(-32005)) return true;
+
+  const message = [
+    error?.message,
+    error?.shortMessage,
+    error?.error?.message,
+    error?.info?.error?.message,
+  ].join(' ');
+  return /block range|range (is )?too (large|wide|big)|too many (blocks|results|logs)|more than \d+ (results|logs)|limit exceeded|exceeds? (the )?(max|limit)|response size|query timeout|timed? ?out/i.test(
+    message
+  );
+}
+
+/**
+ * Query logs over a block range, splitting the window whenever the RPC rejects it
+ * The window is halved on each rejection and kept at the working size for the rest of the range
+ *
+ * @param provider - Provider to query
+ * @param filter - Address and topics to match
+ * @param fromBlock - First block (inclusive)
+ * @param toBlock - Last block (inclusive)
+ * @param options.maxBlockRange - Initial window size (default: the whole range)
+ * @returns Logs in block order
+ * @throws SDKError (GET_LOGS_ERROR) if a single-block query still fails, or on any other RPC error
+ *
+ * @example
+ * ```typescript
+ * const logs = await getLogsChunked(provider, { address, topics: [transferTopic] }, 0, latest, {
+ *   maxBlockRange: 10_000,
+ * });
+ * ```
+ */
+export async function getLogsChunked(
+  provider: Provider,
+  filter: Omit<Filter, 'fromBlock' | 'toBlock'>,
+  fromBlock: number,
+  toBlock: number,
+  options: { maxBlockRange?: number } = {}
+): Promise<Log[]> {
+  if (!Number.isInteger(fromBlock) || !Number.isInteger(toBlock) || fromBlock < 0) {
+    throw new SDKError('Block range must be non-negative integers', 'INVALID_PARAMETER', {
+      fromBlock,
+      toBlock,
+    });
+  }
+  if (
+    options.maxBlockRange !== undefined &&
+    (!Number.isInteger(options.maxBlockRange) || options.maxBlockRange < 1)
+  ) {
+    throw new SDKError('maxBlockRange must be a positive integer', 'INVALID_PARAMETER', {
+      maxBlockRange: options.maxBlockRange,
+    });
+  }
+
+  const logs: Log[] = [];
+  let size = options.maxBlockRange ?? toBlock - fromBlock + 1;
+  let start = fromBlock;
+
+  while (start <= toBlock) {
+    const end = Math.min(start + size - 1, toBlock);
+    try {
+      logs.push(...(await provider.getLogs({ ...filter, fromBlock: start, toBlock: end })));
+      start = end + 1;
+    } catch (error: any) {
+      if (!isRangeError(error) || size === 1) {
+        throw new SDKError(
+          `Failed to query logs for blocks ${start}-${end}: ${error.message || error}`,
+          'GET_LOGS_ERROR',
+          { fromBlock: start, toBlock: end, error: error.message || error }
+        );
+      }
+      size = Math.ceil(size / 2);
+    }
+  }
+
+  return logs;
+}
+
+/**
+ * Get block timestamps (unix seconds), reusing and filling the given cache
+ * Blocks are keyed by hash so a reorged block is never served a stale timestamp
+ *
+ * @param provider - Provider to query
+ * @param blockHashes - Blocks to look up (duplicates are fetched once)
+ * @param cache - Block hash to timestamp cache shared between calls
+ * @param concurrency - Maximum number of getBlock requests in flight (default: 5)
+ * @returns Block hash to timestamp map covering every requested block
+ */
+export async function getBlockTimestamps(
+  provider: Provider,
+  blockHashes: string[],
+  cache: Map<string, number> = new Map(),
+  concurrency = 5
+): Promise<Map<string, number>> {
+  const missing = [...new Set(blockHashes)].filter((blockHash) => !cache.has(blockHash));
+
+  for (let i = 0; i < missing.length; i += concurrency) {
+    await Promise.all(
+      missing.slice(i, i + concurrency).map(async (blockHash) => {
+        const block = await provider.getBlock(blockHash);
+        if (!block) {
+          throw new SDKError(`Block ${blockHash} not found`, 'BLOCK_NOT_FOUND', { blockHash });
+        }
+        cache.set(blockHash, block.timestamp);
+      })
+    );
+  }
+
+  return cache;
+}
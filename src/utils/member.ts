@@ -0,0 +1,130 @@
+import { AbiCoder, isAddress, isHexString, keccak256 } from 'ethers';
+import { SDKError } from '../types';
+import type { MemberHashOptions, MemberIdentityType } from '../types';
+import { getAddressHash } from './wallet';
+
+const MEMBER_HASH_DOMAIN = 'ddc-member:v1';
+const IDENTITY_TYPES: MemberIdentityType[] = ['address', 'email', 'phone', 'custom'];
+
+/**
+ * Normalize a member identity the way getMemberHash() does before hashing
+ *
+ * - address: validated, lowercased
+ * - email: trimmed, Unicode NFKC, lowercased (provider-specific rules such as Gmail dots are
+ *   not applied)
+ * - phone: E.164; spaces, dashes, dots and parentheses are removed and a leading `00` becomes
+ *   `+`. The country code is required
+ * - custom: trimmed, Unicode NFKC, case preserved
+ *
+ * @param identity - Raw identity
+ * @param type - Identity type (default: 'address')
+ * @returns Normalized identity
+ * @throws SDKError (INVALID_MEMBER_IDENTITY) if the identity is not valid for its type
+ */
+export function normalizeMemberIdentity(
+  identity: string,
+  type: MemberIdentityType = 'address'
+): string {
+  if (!IDENTITY_TYPES.includes(type)) {
+    throw new SDKError(`Unsupported member identity type: ${type}`, 'INVALID_PARAMETER', {
+      type,
+    });
+  }
+
+  const trimmed = typeof identity === 'string' ? identity.trim().normalize('NFKC') : '';
+  const fail = (reason: string): never => {
+    throw new SDKError(`Invalid ${type} identity: ${reason}`, 'INVALID_MEMBER_IDENTITY', {
+      type,
+      identity,
+    });
+  };
+  if (!trimmed) fail('identity cannot be empty');
+
+  switch (type) {
+    case 'address':
+      if (!isAddress(trimmed)) fail('not a valid wallet address');
+      return trimmed.toLowerCase();
+
+    case 'email': {
+      const email = trimmed.toLowerCase();
+      if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) fail('not a valid email address');
+      return email;
+    }
+
+    case 'phone': {
+      const phone = trimmed.replace(/[\s().-]/g, '').replace(/^00/, '+');
+      if (!/^\+[1-9]\d{6,14}$/.test(phone)) {
+        fail('expected an international number such as +14155550123');
+      }
+      return phone;
+    }
+
+    default:
+      return trimmed;
+  }
+}
+
+/**
+ * Canonical membership addressHash of a member identity
+ *
+ * - Unsalted addresses hash exactly like getAddressHash(): keccak256(utf8(lowercase address)),
+ *   so memberships minted before this scheme stay comparable
+ * - Everything else hashes keccak256(abi.encode("ddc-member:v1", type, salt, identity)) over the
+ *   normalized identity (salt "" when none). Its preimage starts with a zero byte and can never
+ *   equal an unsalted address preimage ("0x..."), and the type keeps an email from matching the
+ *   same string registered as a custom identity
+ *
+ * Emails and phone numbers are easy to guess, so their unsalted hashes can be reversed by anyone
+ * reading the chain; use a secret salt (the same one for the whole contract) for them.
+ *
+ * @param identity - Wallet address, email, phone number or custom identifier
+ * @param options - Identity type (default: 'address') and salt
+ * @returns bytes32 member hash for mintMembership / destroyMembership / isMemberInSnapshot
+ * @throws SDKError (INVALID_MEMBER_IDENTITY) if the identity is not valid for its type
+ *
+ * @example
+ * ```typescript
+ * const hash = getMemberHash(' Alice@Example.com ', { type: 'email', salt: process.env.MEMBER_SALT });
+ * await membershipManager.mintMembership(1n, hash);
+ * ```
+ */
+export function getMemberHash(identity: string, options: MemberHashOptions = {}): string {
+  const { type = 'address', salt = '' } = options;
+  if (typeof salt !== 'string') {
+    throw new SDKError('salt must be a string', 'INVALID_PARAMETER');
+  }
+
+  const normalized = normalizeMemberIdentity(identity, type);
+  if (type === 'address' && salt === '') {
+    return getAddressHash(normalized);
+  }
+
+  return keccak256(
+    AbiCoder.defaultAbiCoder().encode(
+      ['string', 'string', 'string', 'string'],
+      [MEMBER_HASH_DOMAIN, type, salt, normalized]
+    )
+  );
+}
+
+/**
+ * Check whether a member hash belongs to an identity
+ *
+ * @param identity - Identity to check (normalized like in getMemberHash)
+ * @param memberHash - bytes32 hash, e.g. from a snapshot
+ * @param options - Identity type and salt the hash was created with
+ * @returns true if the hash matches; false for a different or invalid identity
+ */
+export function verifyMemberHash(
+  identity: string,
+  memberHash: string,
+  options: MemberHashOptions = {}
+): boolean {
+  if (!isHexString(memberHash, 32)) return false;
+  try {
+    return getMemberHash(identity, options) === memberHash.toLowerCase();
+  } catch (error: any) {
+    if (error?.code === 'INVALID_MEMBER_IDENTITY') return false;
+    throw error;
+  }
+}
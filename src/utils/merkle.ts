@@ -0,0 +1,211 @@
+import { ZeroHash, concat, isHexString, keccak256 } from 'ethers';
+import { SDKError } from '../types';
+import type { MerkleProof, MerkleTreeContext, MembershipMerkleTreeJSON } from '../types';
+
+const FORMAT = 'ddc-membership-merkle-v1';
+const LEAF_PREFIX = '0x00';
+const NODE_PREFIX = '0x01';
+
+/**
+ * Deterministic Merkle tree over a snapshot's member hashes
+ *
+ * - Member hashes are lowercased, deduplicated and sorted ascending before hashing, so the same
+ *   member set always produces the same root regardless of snapshot order
+ * - leaf = keccak256(0x00 ‖ memberHash), node = keccak256(0x01 ‖ min(a, b) ‖ max(a, b));
+ *   the prefixes keep a leaf from ever being passed off as an inner node
+ * - An odd node at the end of a level is carried up unchanged
+ * - The root of an empty tree is bytes32(0)
+ *
+ * Pairs are hashed in sorted order, so a proof is only the list of sibling hashes and can be
+ * verified with verifyMerkleProof() (or a few lines of Solidity) without the tree.
+ *
+ * @example
+ * ```typescript
+ * const tree = new MembershipMerkleTree(await membershipManager.getMemberSnapshot(4n));
+ * const proof = tree.getProof(getAddressHash(memberAddress));
+ * verifyMerkleProof(proof, publishedRoot); // true
+ * ```
+ */
+export class MembershipMerkleTree {
+  readonly root: string;
+  /** Member hashes in leaf order (lowercase, sorted) */
+  readonly members: readonly string[];
+  readonly context: MerkleTreeContext;
+
+  /** levels[0] are the leaves, the last level holds the root */
+  private readonly levels: string[][];
+  private readonly positions = new Map<string, number>();
+
+  constructor(memberHashes: readonly string[], context: MerkleTreeContext = {}) {
+    if (!Array.isArray(memberHashes)) {
+      throw new SDKError('memberHashes must be an array', 'INVALID_PARAMETER');
+    }
+
+    const members = [...new Set(memberHashes.map(normalizeMemberHash))].sort();
+    members.forEach((member, index) => this.positions.set(member, index));
+
+    this.levels = [members.map(hashLeaf)];
+    while (this.levels[this.levels.length - 1].length > 1) {
+      const level = this.levels[this.levels.length - 1];
+      const parents: string[] = [];
+      for (let i = 0; i < level.length; i += 2) {
+        parents.push(i + 1 < level.length ? hashPair(level[i], level[i + 1]) : level[i]);
+      }
+      this.levels.push(parents);
+    }
+
+    this.members = members;
+    this.root = this.levels[this.levels.length - 1][0] ?? ZeroHash;
+    this.context = { ...context };
+  }
+
+  /**
+   * Rebuild a tree from its JSON export and check the stored root
+   * @throws SDKError (INVALID_MERKLE_TREE) if the export is malformed or its root does not match
+   */
+  static fromJSON(json: MembershipMerkleTreeJSON | string): MembershipMerkleTree {
+    let data: MembershipMerkleTreeJSON;
+    try {
+      data = typeof json === 'string' ? JSON.parse(json) : json;
+    } catch (error: any) {
+      throw new SDKError(
+        `Merkle tree export is not valid JSON: ${error.message}`,
+        'INVALID_MERKLE_TREE'
+      );
+    }
+
+    if (data?.format !== FORMAT || !Array.isArray(data.members)) {
+      throw new SDKError(`Merkle tree export must have format ${FORMAT}`, 'INVALID_MERKLE_TREE', {
+        format: data?.format,
+      });
+    }
+
+    const tree = new MembershipMerkleTree(data.members, {
+      snapshotId: data.snapshotId !== undefined ? BigInt(data.snapshotId) : undefined,
+      contractAddress: data.contractAddress,
+      chainId: data.chainId,
+    });
+    if (tree.root !== data.root?.toLowerCase()) {
+      throw new SDKError(
+        'Merkle tree export root does not match its members',
+        'INVALID_MERKLE_TREE',
+        {
+          expected: data.root,
+          actual: tree.root,
+        }
+      );
+    }
+    return tree;
+  }
+
+  /**
+   * Whether a member hash is in the tree (case-insensitive)
+   */
+  has(memberHash: string): boolean {
+    return this.positions.has(normalizeMemberHash(memberHash));
+  }
+
+  /**
+   * Build the inclusion proof of one member
+   * @throws SDKError (MEMBER_NOT_FOUND) if the member hash is not in the tree
+   */
+  getProof(memberHash: string): MerkleProof {
+    const member = normalizeMemberHash(memberHash);
+    let index = this.positions.get(member);
+    if (index === undefined) {
+      throw new SDKError('Member hash is not in the Merkle tree', 'MEMBER_NOT_FOUND', {
+        memberHash: member,
+        root: this.root,
+      });
+    }
+
+    const proof: string[] = [];
+    for (const level of this.levels.slice(0, -1)) {
+      const sibling = index % 2 === 0 ? index + 1 : index - 1;
+      if (sibling < level.length) proof.push(level[sibling]);
+      index = Math.floor(index / 2);
+    }
+
+    return {
+      memberHash: member,
+      leaf: this.levels[0][this.positions.get(member)!],
+      proof,
+      root: this.root,
+      ...this.serializeContext(),
+    };
+  }
+
+  /**
+   * Export the tree in the documented `ddc-membership-merkle-v1` format
+   * Only the members and root are stored; proofs are rebuilt with fromJSON()
+   */
+  toJSON(): MembershipMerkleTreeJSON {
+    return {
+      format: FORMAT,
+      root: this.root,
+      leafCount: this.members.length,
+      ...this.serializeContext(),
+      members: [...this.members],
+    };
+  }
+
+  private serializeContext(): Pick<MerkleProof, 'snapshotId' | 'contractAddress' | 'chainId'> {
+    const { snapshotId, contractAddress, chainId } = this.context;
+    return {
+      ...(snapshotId !== undefined && { snapshotId: snapshotId.toString() }),
+      ...(contractAddress !== undefined && { contractAddress }),
+      ...(chainId !== undefined && { chainId }),
+    };
+  }
+}
+
+/**
+ * Verify a membership proof produced by MembershipMerkleTree.getProof()
+ *
+ * @param proof - Proof to check
+ * @param root - Trusted root (default: the root stored in the proof, which only shows the proof
+ *   is self-consistent; pass the root you obtained independently to prove membership)
+ * @returns true if the member hash hashes up to the root
+ *
+ * @example
+ * ```typescript
+ * if (!verifyMerkleProof(proofFromUser, rootFromOurRecords)) throw new Error('Not a member');
+ * ```
+ */
+export function verifyMerkleProof(proof: MerkleProof, root: string = proof?.root): boolean {
+  if (!proof || !isHexString(root, 32) || !Array.isArray(proof.proof)) return false;
+
+  try {
+    const leaf = hashLeaf(normalizeMemberHash(proof.memberHash));
+    if (proof.leaf !== undefined && proof.leaf.toLowerCase() !== leaf) return false;
+
+    const computed = proof.proof.reduce((node, sibling) => {
+      if (!isHexString(sibling, 32)) throw new Error('Invalid sibling');
+      return hashPair(node, sibling.toLowerCase());
+    }, leaf);
+    return computed === root.toLowerCase();
+  } catch {
+    return false;
+  }
+}
+
+function normalizeMemberHash(memberHash: string): string {
+  if (!isHexString(memberHash, 32)) {
+    throw new SDKError(
+      'Member hash must be a 0x-prefixed 32-byte hex string',
+      'INVALID_PARAMETER',
+      {
+        memberHash,
+      }
+    );
+  }
+  return memberHash.toLowerCase();
+}
+
+function hashLeaf(memberHash: string): string {
+  return keccak256(concat([LEAF_PREFIX, memberHash]));
+}
+
+function hashPair(a: string, b: string): string {
+  return a < b ? keccak256(concat([NODE_PREFIX, a, b])) : keccak256(concat([NODE_PREFIX, b, a]));
+}
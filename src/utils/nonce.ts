@@ -0,0 +1,136 @@
+import {
+  AbstractSigner,
+  Provider,
+  Signer,
+  TransactionRequest,
+  TransactionResponse,
+  TypedDataDomain,
+  TypedDataField,
+  isError,
+} from 'ethers';
+import { SDKError } from '../types';
+
+/**
+ * Signer wrapper that allocates nonces locally for private-key (JsonRpcProvider) mode
+ *
+ * - Sends are serialized, so concurrent writes never pick the same nonce
+ * - A nonce is only consumed once the node accepts the transaction (a failed gas
+ *   estimation or rejected broadcast does not leave a gap)
+ * - `NONCE_EXPIRED` / replacement errors trigger a resync from the chain and one retry
+ * - Transactions with an explicit `nonce` are sent as-is and advance the local counter
+ *
+ * @example
+ * ```typescript
+ * const signer = new ManagedNonceSigner(new Wallet(privateKey, provider));
+ * await Promise.all([contract.connect(signer).mint(1n, hash1), contract.connect(signer).mint(2n, hash2)]);
+ * ```
+ */
+export class ManagedNonceSigner extends AbstractSigner {
+  readonly signer: Signer;
+
+  private nonce: number | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(signer: Signer) {
+    super(signer.provider);
+    this.signer = signer;
+  }
+
+  async getAddress(): Promise<string> {
+    return this.signer.getAddress();
+  }
+
+  connect(provider: null | Provider): ManagedNonceSigner {
+    return new ManagedNonceSigner(this.signer.connect(provider));
+  }
+
+  async signTransaction(tx: TransactionRequest): Promise<string> {
+    return this.signer.signTransaction(tx);
+  }
+
+  async signMessage(message: string | Uint8Array): Promise<string> {
+    return this.signer.signMessage(message);
+  }
+
+  async signTypedData(
+    domain: TypedDataDomain,
+    types: Record<string, Array<TypedDataField>>,
+    value: Record<string, any>
+  ): Promise<string> {
+    return this.signer.signTypedData(domain, types, value);
+  }
+
+  /**
+   * Next nonce that will be used, or null if not yet read from the chain
+   */
+  getNextNonce(): number | null {
+    return this.nonce;
+  }
+
+  /**
+   * Re-read the pending nonce from the chain
+   * Waits for in-flight sends so the counter is not reset under them
+   * @returns Next nonce that will be used
+   */
+  async resync(): Promise<number> {
+    return this.enqueue(() => this.fetchNonce());
+  }
+
+  async sendTransaction(tx: TransactionRequest): Promise<TransactionResponse> {
+    return this.enqueue(async () => {
+      if (tx.nonce != null) {
+        const response = await this.signer.sendTransaction(tx);
+        if (this.nonce !== null && response.nonce >= this.nonce) {
+          this.nonce = response.nonce + 1;
+        }
+        return response;
+      }
+
+      try {
+        return await this.sendWithNextNonce(tx);
+      } catch (error) {
+        if (!isNonceError(error)) throw error;
+
+        // Another sender (or a dropped transaction) moved the account nonce: resync and retry once
+        await this.fetchNonce();
+        return await this.sendWithNextNonce(tx);
+      }
+    });
+  }
+
+  private async sendWithNextNonce(tx: TransactionRequest): Promise<TransactionResponse> {
+    const nonce = this.nonce ?? (await this.fetchNonce());
+    const response = await this.signer.sendTransaction({ ...tx, nonce });
+    this.nonce = nonce + 1;
+    return response;
+  }
+
+  private async fetchNonce(): Promise<number> {
+    if (!this.signer.provider) {
+      throw new SDKError('Provider is not available', 'PROVIDER_NOT_AVAILABLE');
+    }
+    this.nonce = await this.signer.provider.getTransactionCount(
+      await this.signer.getAddress(),
+      'pending'
+    );
+    return this.nonce;
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task);
+    // Keep the queue alive after failures
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+}
+
+/**
+ * Whether a send failed because its nonce was already used or is being replaced
+ */
+function isNonceError(error: unknown): boolean {
+  if (isError(error, 'NONCE_EXPIRED') || isError(error, 'REPLACEMENT_UNDERPRICED')) {
+    return true;
+  }
+  const message = String((error as any)?.message || '');
+  return /nonce too low|nonce has already been used/i.test(message);
+}
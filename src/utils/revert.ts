@@ -0,0 +1,223 @@
+import { AbiCoder, Interface, InterfaceAbi, dataSlice, isHexString } from 'ethers';
+import { SDKError } from '../types';
+import type { DecodedRevert } from '../types';
+import { DDCNFT_ABI, DDCNFT_FACTORY_ABI, MEMBERSHIP_ABI, MEMBERSHIP_FACTORY_ABI } from '../abi';
+
+/**
+ * Selector of the built-in `Error(string)` revert (require/revert with a message)
+ */
+const ERROR_STRING_SELECTOR = '0x08c379a0';
+
+/**
+ * Selector of the built-in `Panic(uint256)` revert (assert, overflow, out-of-bounds, ...)
+ */
+const PANIC_SELECTOR = '0x4e487b71';
+
+/**
+ * Contract artifacts searched for custom errors when no ABI is given
+ */
+const ARTIFACT_ABIS: InterfaceAbi[] = [
+  DDCNFT_ABI,
+  DDCNFT_FACTORY_ABI,
+  MEMBERSHIP_ABI,
+  MEMBERSHIP_FACTORY_ABI,
+] as InterfaceAbi[];
+
+/**
+ * Solidity panic codes mapped to SDK error codes and descriptions
+ * @see https://docs.soliditylang.org/en/latest/control-structures.html#panic-via-assert-and-error-via-require
+ */
+const PANIC_CODES: Record<number, [string, string]> = {
+  0x00: ['PANIC', 'generic compiler panic'],
+  0x01: ['ASSERTION_FAILED', 'assertion failed'],
+  0x11: ['ARITHMETIC_OVERFLOW', 'arithmetic overflow or underflow'],
+  0x12: ['DIVISION_BY_ZERO', 'division or modulo by zero'],
+  0x21: ['INVALID_ENUM_VALUE', 'invalid enum value'],
+  0x22: ['INVALID_STORAGE_ENCODING', 'invalid storage byte array encoding'],
+  0x31: ['EMPTY_ARRAY_POP', 'pop on an empty array'],
+  0x32: ['ARRAY_OUT_OF_BOUNDS', 'array index out of bounds'],
+  0x41: ['OUT_OF_MEMORY', 'too much memory allocated'],
+  0x51: ['INVALID_FUNCTION_CALL', 'call to an uninitialized function'],
+};
+
+/**
+ * Revert messages emitted by the DDC contracts mapped to stable SDK error codes
+ * Patterns are matched in order against the decoded `Error(string)` reason
+ */
+const REVERT_REASON_CODES: Array<[RegExp, string]> = [
+  [/already minted|already exists/i, 'TOKEN_ALREADY_EXISTS'],
+  [/has been destroyed|previously destroyed|already destroyed/i, 'TOKEN_DESTROYED'],
+  [/does not exist/i, 'TOKEN_NOT_FOUND'],
+  [/invalid key|incorrect key/i, 'INVALID_KEY'],
+  [/caller is not the owner/i, 'NOT_OWNER'],
+  [/new owner is the zero address/i, 'INVALID_NEW_OWNER'],
+  [/not paused/i, 'CONTRACT_NOT_PAUSED'],
+  [/paused/i, 'CONTRACT_PAUSED'],
+  [/invalid token id/i, 'INVALID_TOKEN_ID'],
+  [/invalid address hash/i, 'INVALID_ADDRESS_HASH'],
+  [/invalid snapshot id/i, 'INVALID_SNAPSHOT_ID'],
+  [/no snapshot available/i, 'SNAPSHOT_NOT_FOUND'],
+  [/supply (overflow|underflow)/i, 'SUPPLY_OVERFLOW'],
+  [/index out of bounds/i, 'INDEX_OUT_OF_BOUNDS'],
+  [/cannot be empty/i, 'INVALID_PARAMETER'],
+];
+
+/**
+ * Extract raw revert data from an ethers error
+ * Wallets and RPC nodes nest the payload differently, so several locations are checked
+ *
+ * @param error - Error thrown by a contract call, estimateGas or staticCall
+ * @returns Hex revert data, or null if the error carries no revert payload
+ */
+export function extractRevertData(error: any): string | null {
+  const candidates = [
+    error?.data,
+    error?.revert?.data,
+    error?.info?.error?.data,
+    error?.info?.error?.data?.data,
+    error?.error?.data,
+    error?.error?.data?.data,
+  ];
+
+  for (const candidate of candidates) {
+    // At least a 4-byte selector is required
+    if (typeof candidate === 'string' && isHexString(candidate) && candidate.length >= 10) {
+      return candidate;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Decode revert data into its error name and arguments
+ * Supports `Error(string)`, `Panic(uint256)` and custom errors declared in the given ABIs
+ *
+ * @param data - Hex revert data
+ * @param abis - Contract ABIs to look up custom errors in (default: all bundled contract artifacts)
+ * @returns Decoded revert, or null if the data matches no known error
+ *
+ * @example
+ * ```typescript
+ * import { decodeRevertData, extractRevertData } from '@ddcmarket/sdk';
+ *
+ * const data = extractRevertData(error);
+ * const decoded = data ? decodeRevertData(data) : null;
+ * console.log(decoded?.reason); // e.g. 'Token already minted!'
+ * ```
+ */
+export function decodeRevertData(
+  data: string,
+  abis: InterfaceAbi[] = ARTIFACT_ABIS
+): DecodedRevert | null {
+  if (!isHexString(data) || data.length < 10) {
+    return null;
+  }
+
+  const selector = dataSlice(data, 0, 4).toLowerCase();
+
+  if (selector === ERROR_STRING_SELECTOR) {
+    try {
+      const [reason] = AbiCoder.defaultAbiCoder().decode(['string'], dataSlice(data, 4));
+      return {
+        name: 'Error',
+        signature: 'Error(string)',
+        selector,
+        args: { reason },
+        reason,
+      };
+    } catch {
+      return null;
+    }
+  }
+
+  if (selector === PANIC_SELECTOR) {
+    try {
+      const [code] = AbiCoder.defaultAbiCoder().decode(['uint256'], dataSlice(data, 4));
+      return {
+        name: 'Panic',
+        signature: 'Panic(uint256)',
+        selector,
+        args: { code },
+        panicCode: Number(code),
+      };
+    } catch {
+      return null;
+    }
+  }
+
+  for (const abi of abis) {
+    try {
+      const parsed = new Interface(abi).parseError(data);
+      if (!parsed) continue;
+
+      const args: Record<string, unknown> = {};
+      parsed.fragment.inputs.forEach((input, index) => {
+        args[input.name || String(index)] = parsed.args[index];
+      });
+
+      return {
+        name: parsed.name,
+        signature: parsed.signature,
+        selector: parsed.selector,
+        args,
+      };
+    } catch {
+      continue;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Get the stable SDK error code for a decoded revert
+ * - `Error(string)` reasons are matched against known contract messages
+ * - `Panic(uint256)` codes map to their Solidity meaning (e.g. 0x11 -> ARITHMETIC_OVERFLOW)
+ * - Custom errors (only decodable with ABIs passed to decodeRevertData; the bundled contracts
+ *   revert with messages) map to their name in SCREAMING_SNAKE_CASE
+ */
+export function getRevertErrorCode(decoded: DecodedRevert): string {
+  if (decoded.panicCode !== undefined) {
+    return PANIC_CODES[decoded.panicCode]?.[0] || 'PANIC';
+  }
+
+  if (decoded.reason !== undefined) {
+    for (const [pattern, code] of REVERT_REASON_CODES) {
+      if (pattern.test(decoded.reason)) {
+        return code;
+      }
+    }
+    return 'CONTRACT_REVERTED';
+  }
+
+  return decoded.name
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .replace(/([A-Z])([A-Z][a-z])/g, '$1_$2')
+    .toUpperCase();
+}
+
+/**
+ * Convert a decoded revert into an SDKError with a stable code
+ * @param decoded - Decoded revert
+ * @param extra - Additional context to include in SDKError.data
+ */
+export function revertToSDKError(
+  decoded: DecodedRevert,
+  extra?: Record<string, unknown>
+): SDKError {
+  let message = `Contract reverted with ${decoded.signature}`;
+  if (decoded.reason !== undefined) {
+    message = `Contract reverted: ${decoded.reason}`;
+  } else if (decoded.panicCode !== undefined) {
+    const description = PANIC_CODES[decoded.panicCode]?.[1] || 'unknown panic';
+    message = `Contract panicked: ${description} (0x${decoded.panicCode.toString(16)})`;
+  }
+
+  return new SDKError(message, getRevertErrorCode(decoded), {
+    ...extra,
+    reason: decoded.reason,
+    args: decoded.args,
+    revert: decoded,
+  });
+}
@@ -0,0 +1,329 @@
+import { getAddress, isAddress, isHexString } from 'ethers';
+import { SDKError } from '../types';
+import type { RosterEntry, RosterImportReport, RosterIssue, RosterRow } from '../types';
+import { getMemberHash } from './member';
+
+const BYTES32_ZERO = '0x' + '0'.repeat(64);
+
+type RowIssue = Omit<RosterIssue, 'tokenId'>;
+
+/**
+ * Accepted (case-insensitive, separator-insensitive) CSV header names per roster field
+ */
+const HEADER_ALIASES: Record<keyof RosterRow, string[]> = {
+  tokenId: ['tokenid', 'token', 'id'],
+  address: ['address', 'wallet', 'walletaddress', 'memberaddress'],
+  addressHash: ['addresshash', 'hash', 'memberhash'],
+};
+
+/**
+ * Report columns, in CSV order
+ */
+const REPORT_COLUMNS = [
+  'line',
+  'tokenId',
+  'address',
+  'addressHash',
+  'status',
+  'transactionHash',
+  'blockNumber',
+  'errorCode',
+  'errorMessage',
+] as const;
+
+/**
+ * Parse and validate a membership roster
+ * - CSV: header row required with a `tokenId` column and an `address` and/or `addressHash` column
+ *   (comma or semicolon separated, quoted fields supported)
+ * - JSON: array of `{ tokenId, address?, addressHash? }` objects
+ * Addresses are normalized and hashed with getMemberHash() (getAddressHash() when unsalted);
+ * duplicate tokenIds and members are reported
+ *
+ * @param input - CSV/JSON text or already-parsed rows
+ * @param format - Roster format (default: detected from the content)
+ * @param options - Salt for address hashing (default: none)
+ * @returns Valid entries and the issues found in invalid rows
+ * @throws SDKError (INVALID_ROSTER) if the roster cannot be read at all
+ *
+ * @example
+ * ```typescript
+ * const { entries, issues } = parseRoster('tokenId,address\n1,0xAbC...\n2,0xDeF...');
+ * if (issues.length) console.table(issues);
+ * ```
+ */
+export function parseRoster(
+  input: string | RosterRow[],
+  format?: 'csv' | 'json',
+  options: { salt?: string } = {}
+): { entries: RosterEntry[]; issues: RosterIssue[] } {
+  const rows = Array.isArray(input) ? toLines(input) : readRoster(input, format);
+
+  const entries: RosterEntry[] = [];
+  const issues: RosterIssue[] = [];
+  const tokenLines = new Map<bigint, number>();
+  const hashLines = new Map<string, number>();
+
+  for (const { line, row } of rows) {
+    const rowIssues: RowIssue[] = [];
+    const tokenId = normalizeTokenId(row.tokenId, line, rowIssues);
+    const member = normalizeMember(row, line, rowIssues, options.salt);
+
+    if (tokenId !== null) {
+      const firstLine = tokenLines.get(tokenId);
+      if (firstLine !== undefined) {
+        rowIssues.push({
+          line,
+          field: 'tokenId',
+          message: `Duplicate tokenId (first used on line ${firstLine})`,
+          value: tokenId.toString(),
+        });
+      }
+    }
+
+    if (member) {
+      const firstLine = hashLines.get(member.addressHash);
+      if (firstLine !== undefined) {
+        rowIssues.push({
+          line,
+          field: member.address ? 'address' : 'addressHash',
+          message: `Duplicate member (first listed on line ${firstLine})`,
+          value: member.address || member.addressHash,
+        });
+      }
+    }
+
+    if (rowIssues.length > 0 || tokenId === null || !member) {
+      const rawTokenId = String(row.tokenId ?? '').trim();
+      issues.push(...rowIssues.map((issue) => ({ ...issue, tokenId: rawTokenId })));
+      continue;
+    }
+
+    tokenLines.set(tokenId, line);
+    hashLines.set(member.addressHash, line);
+    entries.push({ line, tokenId, ...member });
+  }
+
+  return { entries, issues };
+}
+
+/**
+ * Render a roster import report for operators
+ *
+ * @param report - Report returned by MembershipManager.importRoster
+ * @param format - 'csv' (one row per roster line) or 'json' (full report, bigint-safe)
+ * @returns Report text
+ */
+export function formatRosterReport(
+  report: RosterImportReport,
+  format: 'csv' | 'json' = 'csv'
+): string {
+  if (format === 'json') {
+    return JSON.stringify(report, null, 2);
+  }
+
+  const lines = [REPORT_COLUMNS.join(',')];
+  for (const row of report.rows) {
+    lines.push(REPORT_COLUMNS.map((column) => escapeCsv(row[column])).join(','));
+  }
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Read raw rows from CSV or JSON text
+ */
+function readRoster(
+  input: string,
+  format?: 'csv' | 'json'
+): Array<{ line: number; row: RosterRow }> {
+  if (typeof input !== 'string' || !input.trim()) {
+    throw new SDKError('Roster is empty', 'INVALID_ROSTER');
+  }
+
+  const detected = format || (/^\s*[[{]/.test(input) ? 'json' : 'csv');
+  return detected === 'json' ? readJson(input) : readCsv(input);
+}
+
+function readJson(input: string): Array<{ line: number; row: RosterRow }> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(input);
+  } catch (error: any) {
+    throw new SDKError(`Roster is not valid JSON: ${error.message}`, 'INVALID_ROSTER');
+  }
+
+  // Accept both a bare array and { members: [...] }
+  const rows = Array.isArray(parsed) ? parsed : (parsed as any)?.members;
+  if (!Array.isArray(rows)) {
+    throw new SDKError('JSON roster must be an array of rows', 'INVALID_ROSTER');
+  }
+  return toLines(rows);
+}
+
+function readCsv(input: string): Array<{ line: number; row: RosterRow }> {
+  const records = splitCsv(input.replace(/^\uFEFF/, ''));
+  if (records.length === 0) {
+    throw new SDKError('Roster is empty', 'INVALID_ROSTER');
+  }
+
+  const [header, ...body] = records;
+  const columns = header.fields.map((name) => resolveColumn(name));
+  if (
+    !columns.includes('tokenId') ||
+    !(columns.includes('address') || columns.includes('addressHash'))
+  ) {
+    throw new SDKError(
+      'CSV roster header must contain a tokenId column and an address or addressHash column',
+      'INVALID_ROSTER',
+      { header: header.fields }
+    );
+  }
+
+  return body.map(({ line, fields }) => {
+    const row: RosterRow = { tokenId: '' };
+    columns.forEach((column, index) => {
+      if (column && fields[index] !== undefined && fields[index] !== '') {
+        row[column] = fields[index];
+      }
+    });
+    return { line, row };
+  });
+}
+
+/**
+ * Split CSV text into records (RFC 4180 quoting, comma or semicolon separated)
+ * Blank lines are skipped; each record keeps the line it starts on
+ */
+function splitCsv(input: string): Array<{ line: number; fields: string[] }> {
+  const firstLine = input.split(/\r?\n/, 1)[0];
+  const delimiter = firstLine.includes(';') && !firstLine.includes(',') ? ';' : ',';
+
+  const records: Array<{ line: number; fields: string[] }> = [];
+  let fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  let line = 1;
+  let recordLine = 1;
+
+  const endRecord = () => {
+    fields.push(field.trim());
+    if (fields.some((value) => value !== '')) {
+      records.push({ line: recordLine, fields });
+    }
+    fields = [];
+    field = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n') line++;
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      fields.push(field.trim());
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRecord();
+      line++;
+      recordLine = line;
+    } else {
+      field += char;
+    }
+  }
+  endRecord();
+
+  return records;
+}
+
+function resolveColumn(name: string): keyof RosterRow | null {
+  const key = name.toLowerCase().replace(/[\s_-]/g, '');
+  for (const [column, aliases] of Object.entries(HEADER_ALIASES)) {
+    if (aliases.includes(key)) return column as keyof RosterRow;
+  }
+  return null;
+}
+
+function toLines(rows: unknown[]): Array<{ line: number; row: RosterRow }> {
+  return rows.map((row, index) => ({ line: index + 1, row: (row || {}) as RosterRow }));
+}
+
+function normalizeTokenId(value: unknown, line: number, issues: RowIssue[]): bigint | null {
+  const text = typeof value === 'string' ? value.trim() : String(value ?? '');
+  try {
+    if (!/^(\d+|0x[0-9a-fA-F]+)$/.test(text)) throw new Error();
+    const tokenId = BigInt(text);
+    if (tokenId === 0n) throw new Error();
+    return tokenId;
+  } catch {
+    issues.push({
+      line,
+      field: 'tokenId',
+      message: 'tokenId must be a non-zero integer',
+      value: text,
+    });
+    return null;
+  }
+}
+
+function normalizeMember(
+  row: RosterRow,
+  line: number,
+  issues: RowIssue[],
+  salt?: string
+): { address?: string; addressHash: string } | null {
+  const address = typeof row.address === 'string' ? row.address.trim() : '';
+  const hash = typeof row.addressHash === 'string' ? row.addressHash.trim().toLowerCase() : '';
+
+  if (!address && !hash) {
+    issues.push({ line, field: 'row', message: 'Row needs an address or an addressHash' });
+    return null;
+  }
+
+  if (address && !isAddress(address)) {
+    issues.push({ line, field: 'address', message: 'Invalid wallet address', value: address });
+    return null;
+  }
+
+  if (hash && (!isHexString(hash, 32) || hash === BYTES32_ZERO)) {
+    issues.push({
+      line,
+      field: 'addressHash',
+      message: 'addressHash must be a non-zero bytes32 value',
+      value: hash,
+    });
+    return null;
+  }
+
+  if (!address) {
+    return { addressHash: hash };
+  }
+
+  const addressHash = getMemberHash(address, { type: 'address', salt });
+  if (hash && hash !== addressHash) {
+    issues.push({
+      line,
+      field: 'addressHash',
+      message: 'addressHash does not match address',
+      value: hash,
+    });
+    return null;
+  }
+
+  return { address: getAddress(address.toLowerCase()), addressHash };
+}
+
+function escapeCsv(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
@@ -0,0 +1,25 @@
+import type { MembershipDiff } from '../types';
+
+/**
+ * Compare two lists of member hashes (case-insensitive, duplicates ignored)
+ *
+ * @param from - Earlier member hashes
+ * @param to - Later member hashes
+ * @returns Hashes only in `to` (added), only in `from` (removed) and in both (retained),
+ *   lowercased, in the order they appear in their source list
+ *
+ * @example
+ * ```typescript
+ * const { added, removed } = diffMemberHashes(januaryMembers, februaryMembers);
+ * ```
+ */
+export function diffMemberHashes(from: readonly string[], to: readonly string[]): MembershipDiff {
+  const before = new Set(from.map((hash) => hash.toLowerCase()));
+  const after = new Set(to.map((hash) => hash.toLowerCase()));
+
+  return {
+    added: [...after].filter((hash) => !before.has(hash)),
+    removed: [...before].filter((hash) => !after.has(hash)),
+    retained: [...after].filter((hash) => before.has(hash)),
+  };
+}
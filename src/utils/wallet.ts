@@ -7,6 +7,7 @@ import {
   Signer,
   JsonRpcSigner,
   Provider,
+  isAddress,
   type JsonRpcApiProviderOptions,
 } from 'ethers';
 import { SDKError, JsonRpcProviderDescriptor, SignerConfig } from '../types';
@@ -352,3 +353,27 @@ export const getKeyHash = (key: string): string => {
     );
   }
 };
+
+/**
+ * Generate a membership addressHash from a wallet address
+ * The address is normalized (validated, lowercased) before hashing, so checksummed and
+ * lowercase spellings of the same wallet produce the same hash: keccak256(utf8(lowercase address))
+ * Equal to getMemberHash(address); use getMemberHash for emails, phone numbers or salted hashes
+ *
+ * @param address - Wallet address (any letter case)
+ * @returns bytes32 address hash for MembershipManager.mintMembership
+ * @throws SDKError if the address is not a valid EVM address
+ *
+ * @example
+ * ```typescript
+ * const addressHash = getAddressHash('0xAbC...');
+ * await membershipManager.mintMembership(1n, addressHash);
+ * ```
+ */
+export const getAddressHash = (address: string): string => {
+  const trimmed = typeof address === 'string' ? address.trim() : '';
+  if (!isAddress(trimmed)) {
+    throw new SDKError(`Invalid wallet address: ${address}`, 'INVALID_ADDRESS', { address });
+  }
+  return keccak256(toUtf8Bytes(trimmed.toLowerCase()));
+};
@@ -0,0 +1,425 @@
+import { getBytes, hexlify, randomBytes, toUtf8Bytes, toUtf8String } from 'ethers';
+import { SDKError } from '../types';
+import type {
+  KeyVaultOptions,
+  KeyVaultReader,
+  StorageAdapter,
+  VaultBackup,
+  VaultCiphertext,
+  VaultEntry,
+  VaultImportResult,
+  VaultKdfParams,
+} from '../types';
+import { validateAddress } from '../utils';
+
+const BACKUP_FORMAT = 'ddc-key-vault-v1';
+const VERIFIER = 'ddc-key-vault';
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+interface VaultMetadata {
+  version: 1;
+  kdf: VaultKdfParams;
+  verifier: VaultCiphertext;
+}
+
+/**
+ * Password-protected store for DDCNFT holder keys, one entry per (contract, tokenId)
+ *
+ * - The password is stretched with PBKDF2-SHA256 into an AES-256-GCM key (WebCrypto in
+ *   browsers and Node.js); only the derived, non-extractable key is kept while unlocked
+ * - Every entry has its own random IV and is authenticated together with its contract address
+ *   and tokenId, so entries cannot be swapped between tokens in the backend
+ * - Backends only ever see ciphertext; exported backups stay encrypted with the same password
+ *
+ * @example
+ * ```typescript
+ * const vault = new KeyVault({ storage: new IndexedDBStorageAdapter() });
+ * await vault.unlock(password);
+ *
+ * const { key } = await ddcnftManager.mintWithKey(1n);
+ * await vault.put(ddcnftManager.getContractAddress()!, 1n, key);
+ *
+ * await ddcnftManager.destroy(1n, { vault });
+ * ```
+ */
+export class KeyVault implements KeyVaultReader {
+  readonly namespace: string;
+
+  private readonly storage: StorageAdapter;
+  private readonly iterations: number;
+  private cryptoKey?: CryptoKey;
+  private kdf?: VaultKdfParams;
+
+  constructor(options: KeyVaultOptions) {
+    if (!options?.storage) {
+      throw new SDKError('A storage adapter is required', 'INVALID_PARAMETER');
+    }
+
+    const { iterations = 600_000, namespace = 'ddc-key-vault' } = options;
+    if (!Number.isInteger(iterations) || iterations < 100_000) {
+      throw new SDKError('iterations must be an integer of at least 100000', 'INVALID_PARAMETER', {
+        iterations,
+      });
+    }
+
+    this.storage = options.storage;
+    this.namespace = namespace;
+    this.iterations = iterations;
+  }
+
+  /**
+   * Derive the encryption key from the password
+   * The first unlock of an empty backend creates the vault with this password
+   *
+   * @param password - Vault password
+   * @throws SDKError (VAULT_PASSWORD_INVALID) if the password does not open the vault
+   */
+  async unlock(password: string): Promise<void> {
+    validatePassword(password);
+
+    const metadata = await this.storage.get<VaultMetadata>(this.metadataKey());
+    if (!metadata) {
+      const kdf: VaultKdfParams = {
+        name: 'PBKDF2',
+        hash: 'SHA-256',
+        iterations: this.iterations,
+        salt: hexlify(randomBytes(SALT_BYTES)),
+      };
+      const cryptoKey = await deriveKey(password, kdf);
+      const verifier = await encrypt(cryptoKey, VERIFIER, VERIFIER);
+      await this.storage.set<VaultMetadata>(this.metadataKey(), { version: 1, kdf, verifier });
+      this.cryptoKey = cryptoKey;
+      this.kdf = kdf;
+      return;
+    }
+
+    this.cryptoKey = await openWithPassword(password, metadata.kdf, metadata.verifier);
+    this.kdf = metadata.kdf;
+  }
+
+  /**
+   * Forget the derived key; reads and writes need unlock() again
+   */
+  lock(): void {
+    this.cryptoKey = undefined;
+    this.kdf = undefined;
+  }
+
+  isUnlocked(): boolean {
+    return this.cryptoKey !== undefined;
+  }
+
+  /**
+   * Store (or replace) the key of a token
+   *
+   * @param contractAddress - DDCNFT contract address
+   * @param tokenId - Token ID
+   * @param key - Plaintext holder key
+   * @throws SDKError (VAULT_LOCKED) if the vault is locked
+   */
+  async put(contractAddress: string, tokenId: bigint, key: string): Promise<void> {
+    const cryptoKey = this.requireUnlocked();
+    const id = entryId(contractAddress, tokenId);
+    if (typeof key !== 'string' || !key.trim()) {
+      throw new SDKError('Key must be a non-empty string', 'INVALID_PARAMETER');
+    }
+
+    const entry: VaultEntry = {
+      contractAddress: contractAddress.toLowerCase(),
+      tokenId: tokenId.toString(),
+      ...(await encrypt(cryptoKey, key, id)),
+      updatedAt: Date.now(),
+    };
+    await this.storage.set<VaultEntry>(this.entryKey(id), entry);
+  }
+
+  /**
+   * Decrypt the key of a token
+   *
+   * @param contractAddress - DDCNFT contract address
+   * @param tokenId - Token ID
+   * @returns Plaintext holder key
+   * @throws SDKError (VAULT_KEY_NOT_FOUND) if no key is stored for the token
+   * @throws SDKError (VAULT_DECRYPT_ERROR) if the stored entry was tampered with
+   */
+  async getKey(contractAddress: string, tokenId: bigint): Promise<string> {
+    const cryptoKey = this.requireUnlocked();
+    const id = entryId(contractAddress, tokenId);
+
+    const entry = await this.storage.get<VaultEntry>(this.entryKey(id));
+    if (!entry) {
+      throw new SDKError(`No key stored for token ${tokenId}`, 'VAULT_KEY_NOT_FOUND', {
+        contractAddress,
+        tokenId,
+      });
+    }
+    return decrypt(cryptoKey, entry, id);
+  }
+
+  /**
+   * Whether a key is stored for a token (works while locked)
+   */
+  async has(contractAddress: string, tokenId: bigint): Promise<boolean> {
+    const id = entryId(contractAddress, tokenId);
+    return (await this.storage.get(this.entryKey(id))) !== undefined;
+  }
+
+  async delete(contractAddress: string, tokenId: bigint): Promise<void> {
+    await this.storage.delete(this.entryKey(entryId(contractAddress, tokenId)));
+  }
+
+  /**
+   * List stored tokens without decrypting anything (works while locked)
+   *
+   * @param contractAddress - Only list this contract (optional)
+   */
+  async list(
+    contractAddress?: string
+  ): Promise<Array<{ contractAddress: string; tokenId: bigint; updatedAt: number }>> {
+    const entries = await this.readEntries(contractAddress);
+    return entries.map((entry) => ({
+      contractAddress: entry.contractAddress,
+      tokenId: BigInt(entry.tokenId),
+      updatedAt: entry.updatedAt,
+    }));
+  }
+
+  /**
+   * Export every entry as an encrypted backup (works while locked)
+   * The backup opens with the vault password at the time of export
+   *
+   * @throws SDKError (VAULT_NOT_INITIALIZED) if the vault was never unlocked
+   */
+  async exportBackup(): Promise<VaultBackup> {
+    const metadata = await this.storage.get<VaultMetadata>(this.metadataKey());
+    if (!metadata) {
+      throw new SDKError('The vault has not been created yet', 'VAULT_NOT_INITIALIZED', {
+        namespace: this.namespace,
+      });
+    }
+
+    return {
+      format: BACKUP_FORMAT,
+      kdf: metadata.kdf,
+      verifier: metadata.verifier,
+      entries: await this.readEntries(),
+      exportedAt: Date.now(),
+    };
+  }
+
+  /**
+   * Import an encrypted backup, re-encrypting its entries with this vault's key
+   *
+   * @param backup - Backup object or its JSON
+   * @param options - `password` of the backup (not needed for a backup of this same vault);
+   *   `overwrite` replaces keys already in the vault (default: false)
+   * @returns Number of imported and skipped entries
+   * @throws SDKError (INVALID_VAULT_BACKUP) if the backup is malformed or an entry fails to decrypt
+   * @throws SDKError (VAULT_PASSWORD_INVALID) if the backup password is wrong
+   */
+  async importBackup(
+    backup: VaultBackup | string,
+    options: { password?: string; overwrite?: boolean } = {}
+  ): Promise<VaultImportResult> {
+    const cryptoKey = this.requireUnlocked();
+    const data = parseBackup(backup);
+
+    let backupKey = cryptoKey;
+    if (data.kdf.salt !== this.kdf!.salt || data.kdf.iterations !== this.kdf!.iterations) {
+      if (options.password === undefined) {
+        throw new SDKError(
+          'The backup comes from another vault; pass its password',
+          'INVALID_PARAMETER'
+        );
+      }
+      validatePassword(options.password);
+      backupKey = await openWithPassword(options.password, data.kdf, data.verifier);
+    }
+
+    const result: VaultImportResult = { imported: 0, skipped: 0 };
+    for (const entry of data.entries) {
+      const tokenId = BigInt(entry.tokenId);
+      const id = entryId(entry.contractAddress, tokenId);
+      if (!options.overwrite && (await this.has(entry.contractAddress, tokenId))) {
+        result.skipped++;
+        continue;
+      }
+
+      let key: string;
+      try {
+        key = await decrypt(backupKey, entry, id);
+      } catch {
+        throw new SDKError(
+          `Backup entry for token ${entry.tokenId} could not be decrypted`,
+          'INVALID_VAULT_BACKUP',
+          { contractAddress: entry.contractAddress, tokenId: entry.tokenId }
+        );
+      }
+      await this.put(entry.contractAddress, tokenId, key);
+      result.imported++;
+    }
+    return result;
+  }
+
+  private requireUnlocked(): CryptoKey {
+    if (!this.cryptoKey) {
+      throw new SDKError('The vault is locked; call unlock() first', 'VAULT_LOCKED', {
+        namespace: this.namespace,
+      });
+    }
+    return this.cryptoKey;
+  }
+
+  private async readEntries(contractAddress?: string): Promise<VaultEntry[]> {
+    const prefix = `${this.namespace}:entry:${contractAddress ? contractAddress.toLowerCase() + ':' : ''}`;
+    const entries: VaultEntry[] = [];
+    for (const key of await this.storage.keys(prefix)) {
+      const entry = await this.storage.get<VaultEntry>(key);
+      if (entry) entries.push(entry);
+    }
+    return entries.sort(
+      (a, b) =>
+        a.contractAddress.localeCompare(b.contractAddress) ||
+        Number(BigInt(a.tokenId) - BigInt(b.tokenId))
+    );
+  }
+
+  private metadataKey(): string {
+    return `${this.namespace}:meta`;
+  }
+
+  private entryKey(id: string): string {
+    return `${this.namespace}:entry:${id}`;
+  }
+}
+
+/**
+ * `<lowercase address>:<tokenId>`, also the authenticated data of the entry's ciphertext
+ */
+function entryId(contractAddress: string, tokenId: bigint): string {
+  validateAddress(contractAddress, 'Contract address');
+  if (typeof tokenId !== 'bigint' || tokenId < 0n) {
+    throw new SDKError('tokenId must be a non-negative bigint', 'INVALID_PARAMETER', { tokenId });
+  }
+  return `${contractAddress.toLowerCase()}:${tokenId}`;
+}
+
+function validatePassword(password: string): void {
+  if (typeof password !== 'string' || password.length === 0) {
+    throw new SDKError('Password must be a non-empty string', 'INVALID_PARAMETER');
+  }
+}
+
+function parseBackup(backup: VaultBackup | string): VaultBackup {
+  let data: VaultBackup;
+  try {
+    data = typeof backup === 'string' ? JSON.parse(backup) : backup;
+  } catch (error: any) {
+    throw new SDKError(`Backup is not valid JSON: ${error.message}`, 'INVALID_VAULT_BACKUP');
+  }
+
+  if (
+    data?.format !== BACKUP_FORMAT ||
+    data.kdf?.name !== 'PBKDF2' ||
+    !data.verifier ||
+    !Array.isArray(data.entries)
+  ) {
+    throw new SDKError(`Backup must have format ${BACKUP_FORMAT}`, 'INVALID_VAULT_BACKUP', {
+      format: data?.format,
+    });
+  }
+  return data;
+}
+
+async function openWithPassword(
+  password: string,
+  kdf: VaultKdfParams,
+  verifier: VaultCiphertext
+): Promise<CryptoKey> {
+  const cryptoKey = await deriveKey(password, kdf);
+  try {
+    await decrypt(cryptoKey, verifier, VERIFIER);
+  } catch {
+    throw new SDKError('Wrong vault password', 'VAULT_PASSWORD_INVALID');
+  }
+  return cryptoKey;
+}
+
+async function deriveKey(password: string, kdf: VaultKdfParams): Promise<CryptoKey> {
+  const subtle = await getSubtle();
+  const material = await subtle.importKey('raw', toBuffer(toUtf8Bytes(password)), 'PBKDF2', false, [
+    'deriveKey',
+  ]);
+  return subtle.deriveKey(
+    {
+      name: 'PBKDF2',
+      hash: kdf.hash,
+      salt: toBuffer(getBytes(kdf.salt)),
+      iterations: kdf.iterations,
+    },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+async function encrypt(
+  cryptoKey: CryptoKey,
+  plaintext: string,
+  additionalData: string
+): Promise<VaultCiphertext> {
+  const subtle = await getSubtle();
+  const iv = toBuffer(randomBytes(IV_BYTES));
+  const ciphertext = await subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: toBuffer(toUtf8Bytes(additionalData)) },
+    cryptoKey,
+    toBuffer(toUtf8Bytes(plaintext))
+  );
+  return { iv: hexlify(iv), ciphertext: hexlify(new Uint8Array(ciphertext)) };
+}
+
+async function decrypt(
+  cryptoKey: CryptoKey,
+  { iv, ciphertext }: VaultCiphertext,
+  additionalData: string
+): Promise<string> {
+  const subtle = await getSubtle();
+  try {
+    const plaintext = await subtle.decrypt(
+      {
+        name: 'AES-GCM',
+        iv: toBuffer(getBytes(iv)),
+        additionalData: toBuffer(toUtf8Bytes(additionalData)),
+      },
+      cryptoKey,
+      toBuffer(getBytes(ciphertext))
+    );
+    return toUtf8String(new Uint8Array(plaintext));
+  } catch {
+    throw new SDKError('Vault entry could not be decrypted', 'VAULT_DECRYPT_ERROR');
+  }
+}
+
+/**
+ * Copy into an ArrayBuffer-backed array (WebCrypto typings reject views over ArrayBufferLike)
+ */
+function toBuffer(bytes: Uint8Array): Uint8Array<ArrayBuffer> {
+  return new Uint8Array(bytes);
+}
+
+/**
+ * WebCrypto is global in browsers and Node.js 19+; older Node.js versions expose it on node:crypto
+ */
+async function getSubtle(): Promise<SubtleCrypto> {
+  if (globalThis.crypto?.subtle) return globalThis.crypto.subtle;
+
+  const specifier = 'node:crypto';
+  try {
+    const { webcrypto } = await import(/* @vite-ignore */ specifier);
+    return webcrypto.subtle;
+  } catch {
+    throw new SDKError('WebCrypto is not available in this environment', 'CRYPTO_NOT_AVAILABLE');
+  }
+}
@@ -0,0 +1 @@
+export { KeyVault } from './KeyVault';